@@ -3,6 +3,14 @@ import { BotClient } from "@open-ic/openchat-botclient-ts";
 import { OpenChatClientService } from "../services/openchatClient.js";
 import { OpenChatInstallation, OpenChatMessageMetadata } from "../types/index.js";
 
+/**
+ * Options passed to actions run from an OpenChat slash command
+ */
+export interface OpenChatActionOptions {
+    openchatMetadata?: OpenChatMessageMetadata;
+    openchatClient?: BotClient;
+}
+
 export interface OpenChatResolvedContext {
     service: OpenChatClientService;
     metadata: OpenChatMessageMetadata;
@@ -96,11 +104,14 @@ export function resolveOpenChatContext(
         };
     }
 
-    const client = service.createClientForScope(
-        installation.scope,
-        installation.record.apiGateway,
-        installation.record.grantedAutonomousPermissions,
-    );
+    // Commands bridged from slash commands run with the command's own client
+    const client =
+        (options as OpenChatActionOptions | undefined)?.openchatClient ??
+        service.createClientForScope(
+            installation.scope,
+            installation.record.apiGateway,
+            installation.record.grantedAutonomousPermissions,
+        );
 
     return { service, metadata, installation, client };
 }
@@ -11,6 +11,8 @@ import {
     MessageEvent,
 } from "@open-ic/openchat-botclient-ts";
 import { resolveOpenChatContext } from "./openChatActionContext.js";
+import { formatTranscript, getTranscriptCacheKey } from "../services/openchatInboundMedia.js";
+import { getBlobId } from "../utils/openchatMedia.js";
 
 function limitValue(value: number, min: number, max: number): number {
     return Math.max(min, Math.min(max, value));
@@ -41,6 +43,27 @@ function describeContent(event: MessageEvent): string {
     }
 }
 
+/**
+ * Voice notes show their transcript when the message manager has already transcribed them
+ */
+async function describeWithTranscript(runtime: IAgentRuntime, event: MessageEvent): Promise<string> {
+    if (event.content.kind !== "audio_content") {
+        return describeContent(event);
+    }
+    const blobId = getBlobId(event.content);
+    if (blobId) {
+        try {
+            const transcript = await runtime.getCache<string>(getTranscriptCacheKey(blobId));
+            if (transcript) {
+                return formatTranscript(transcript, event.content.caption);
+            }
+        } catch {
+            // Fall back to the plain description
+        }
+    }
+    return describeContent(event);
+}
+
 function formatTimestamp(timestamp: bigint | number | undefined): string {
     if (timestamp === undefined) {
         return "recent";
@@ -191,11 +214,13 @@ export const readChatHistoryAction: Action = {
             return;
         }
 
-        const lines = messagesOnly.map(({ event, timestamp, index }) => {
-            const ts = formatTimestamp(timestamp);
-            const text = describeContent(event) || "(no text)";
-            return `#${index} · ${ts} · ${event.sender}: ${text}`;
-        });
+        const lines = await Promise.all(
+            messagesOnly.map(async ({ event, timestamp, index }) => {
+                const ts = formatTimestamp(timestamp);
+                const text = (await describeWithTranscript(runtime, event)) || "(no text)";
+                return `#${index} · ${ts} · ${event.sender}: ${text}`;
+            }),
+        );
 
         const summaryText = [`Recent OpenChat activity (${context.metadata.chatId}):`, ...lines].join(
             "\n",
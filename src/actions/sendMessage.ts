@@ -6,8 +6,14 @@ import {
     State,
 } from "@elizaos/core";
 import { OpenChatClientService } from "../services/openchatClient.js";
+import { applyReplyTarget } from "../services/openchatResponder.js";
 import { OpenChatInstallation, OpenChatScope } from "../types/index.js";
 
+function toEventIndex(value: unknown): number | undefined {
+    const index = typeof value === "string" ? Number(value) : value;
+    return typeof index === "number" && Number.isInteger(index) && index >= 0 ? index : undefined;
+}
+
 /**
  * Action to send a message to OpenChat
  */
@@ -100,9 +106,23 @@ export const sendMessageAction: Action = {
                 targetInstallation.record.grantedAutonomousPermissions,
             );
 
-            // Send message (must be finalized)
-            const msg = (await client.createTextMessage(messageText)).setFinalised(true);
-            await client.sendMessage(msg);
+            // Send message (must be finalized), in a thread or as a quoted reply when requested
+            const msg = applyReplyTarget(
+                (await client.createTextMessage(messageText)).setFinalised(true),
+                {
+                    threadId: toEventIndex(options?.threadId),
+                    repliesTo: toEventIndex(options?.replyToEventIndex),
+                },
+                runtime,
+            );
+            const locationKey = service.getLocationKey(targetInstallation.location);
+            const chatKey = service.buildMetadataFromInstallation(locationKey, targetInstallation).chatId;
+            const response = await service
+                .getOutboundQueue()
+                .send(chatKey, "SEND_OPENCHAT_MESSAGE", () => client.sendMessage(msg));
+            if (response.kind !== "success") {
+                throw new Error(response.message ?? "OpenChat rejected the message");
+            }
 
             if (runtime.logger?.success) {
                 runtime.logger.success(
@@ -0,0 +1,146 @@
+import { IAgentRuntime } from "@elizaos/core";
+import {
+    OpenChatCommandAccessRule,
+    OpenChatCommandContext,
+    OpenChatCommandDefinition,
+} from "../../types/index.js";
+import { COMMAND_ROLES, parseCommandRole } from "../../services/openchatCommandAccess.js";
+import { respondEphemeral } from "./commandMessage.js";
+
+const ACCESS_COMMAND = "access";
+const CLEAR_VALUES = ["default", "reset", "none", "clear"];
+
+function describeRule(commandName: string, rule: OpenChatCommandAccessRule): string {
+    const who = rule.allowedPrincipals?.length
+        ? `only ${rule.allowedPrincipals.map((principal) => `@UserId(${principal})`).join(", ")}`
+        : `${rule.minRole ?? "Participant"} and above`;
+    return `/${commandName} can be used by ${who}.`;
+}
+
+/**
+ * Handle access command
+ * `/access <command>` shows the current rule; `role` and `users` change it for this chat.
+ */
+async function handleAccessCommand(context: OpenChatCommandContext): Promise<void> {
+    const { client, service } = context;
+    const commandName = client.stringArg("command")?.trim().replace(/^\//, "").toLowerCase();
+    const roleArg = client.stringArg("role")?.trim();
+    const usersArg = client.stringArg("users")?.trim();
+
+    const command = commandName ? service.getCommandRegistry().get(commandName) : undefined;
+    if (!command) {
+        await respondEphemeral(context.res, client, `Unknown command \`${commandName ?? ""}\`.`);
+        return;
+    }
+    if (command.name === ACCESS_COMMAND && (roleArg || usersArg)) {
+        await respondEphemeral(context.res, client, "The /access command itself cannot be reconfigured.");
+        return;
+    }
+
+    const { locationKey } = service.resolveCommandLocation(client);
+    const access = service.getCommandAccess();
+    if (!roleArg && !usersArg) {
+        const rule = await access.resolveRule(command, locationKey);
+        await respondEphemeral(context.res, client, describeRule(command.name, rule));
+        return;
+    }
+
+    const current: OpenChatCommandAccessRule = { ...(await access.getOverrides(locationKey))[command.name] };
+    if (roleArg) {
+        if (CLEAR_VALUES.includes(roleArg.toLowerCase())) {
+            delete current.minRole;
+        } else {
+            const role = parseCommandRole(roleArg);
+            if (!role) {
+                await respondEphemeral(
+                    context.res,
+                    client,
+                    `Unknown role \`${roleArg}\`. Use one of: ${COMMAND_ROLES.join(", ")} or default.`,
+                );
+                return;
+            }
+            current.minRole = role;
+        }
+    }
+    if (usersArg) {
+        const principals = usersArg
+            .split(/[\s,]+/)
+            .map((value) => value.replace(/^@UserId\((.*)\)$/, "$1").trim())
+            .filter(Boolean);
+        if (principals.length === 0 || principals.some((value) => CLEAR_VALUES.includes(value.toLowerCase()))) {
+            delete current.allowedPrincipals;
+        } else {
+            current.allowedPrincipals = principals;
+        }
+    }
+
+    const hasOverride = current.minRole !== undefined || Boolean(current.allowedPrincipals?.length);
+    await access.setOverride(locationKey, command.name, hasOverride ? current : undefined);
+    context.runtime.logger?.info?.(
+        `[OpenChat] ${client.initiator ?? "unknown user"} updated access for /${command.name} in ${locationKey}`,
+    );
+    await respondEphemeral(
+        context.res,
+        client,
+        `✅ ${describeRule(command.name, await access.resolveRule(command, locationKey))}`,
+    );
+}
+
+/**
+ * Commands for configuring who may run the bot's commands in a chat
+ */
+export function createAccessCommands(_runtime: IAgentRuntime): OpenChatCommandDefinition[] {
+    return [
+        {
+            name: ACCESS_COMMAND,
+            description: "Show or change who can use a bot command in this chat",
+            defaultRole: "Owner",
+            permissions: {},
+            handler: handleAccessCommand,
+            params: [
+                {
+                    name: "command",
+                    required: true,
+                    description: "Command to inspect or configure",
+                    placeholder: "forget",
+                    param_type: {
+                        StringParam: {
+                            min_length: 1,
+                            max_length: 25,
+                            choices: [],
+                            multi_line: false,
+                        },
+                    },
+                },
+                {
+                    name: "role",
+                    required: false,
+                    description: "Lowest role allowed: Participant, Moderator, Admin, Owner or default",
+                    placeholder: "Moderator",
+                    param_type: {
+                        StringParam: {
+                            min_length: 1,
+                            max_length: 20,
+                            choices: [],
+                            multi_line: false,
+                        },
+                    },
+                },
+                {
+                    name: "users",
+                    required: false,
+                    description: "Comma-separated user ids allowed to use it, or none to clear",
+                    placeholder: "none",
+                    param_type: {
+                        StringParam: {
+                            min_length: 1,
+                            max_length: 1000,
+                            choices: [],
+                            multi_line: false,
+                        },
+                    },
+                },
+            ],
+        },
+    ];
+}
@@ -0,0 +1,321 @@
+import { Action, IAgentRuntime, State } from "@elizaos/core";
+import { BotClient } from "@open-ic/openchat-botclient-ts";
+import {
+    OpenChatActionCommandConfig,
+    OpenChatActionCommandParam,
+    OpenChatCommandContext,
+    OpenChatCommandDefinition,
+    OpenChatCommandParam,
+} from "../../types/index.js";
+import {
+    createCommandResponseCallback,
+    dispatchCommandJob,
+    guardCallback,
+    prepareCommandMessage,
+    success,
+} from "./commandMessage.js";
+import { CommandPlaceholder } from "./commandPlaceholder.js";
+
+/**
+ * Command shapes for the actions shipped with this plugin
+ */
+const ACTION_COMMAND_PRESETS: Record<string, Omit<OpenChatActionCommandConfig, "action">> = {
+    READ_OPENCHAT_HISTORY: {
+        command: "history",
+        description: "Show recent messages from this chat",
+        params: [
+            {
+                name: "limit",
+                option: "limit",
+                type: "integer",
+                description: "Number of messages to show (1-50)",
+            },
+        ],
+        permissions: {
+            message: ["Text"],
+            chat: ["ReadMessages", "ReadChatSummary"],
+        },
+    },
+    REACT_OPENCHAT_MESSAGE: {
+        command: "react",
+        description: "React to a message (default: the latest one)",
+        params: [
+            { name: "reaction", option: "reaction", description: "Emoji to react with" },
+            {
+                name: "message_id",
+                option: "targetMessageId",
+                description: "Message to react to",
+            },
+        ],
+        permissions: {
+            message: ["Text"],
+            chat: ["ReactToMessages", "ReadMessages", "ReadChatSummary"],
+        },
+    },
+    DELETE_OPENCHAT_MESSAGE: {
+        command: "delete",
+        description: "Delete a message",
+        params: [
+            {
+                name: "message_id",
+                option: "messageIds",
+                list: true,
+                required: true,
+                description: "Message to delete",
+            },
+        ],
+        permissions: {
+            message: ["Text"],
+            chat: ["DeleteMessages"],
+        },
+        defaultRole: "Moderator",
+    },
+};
+
+const GENERIC_INPUT_PARAM: OpenChatActionCommandParam = {
+    name: "input",
+    option: "input",
+    description: "Input for the action",
+};
+
+function deriveCommandName(actionName: string): string {
+    return actionName
+        .toLowerCase()
+        .replace(/openchat/g, "")
+        .replace(/[^a-z0-9]+/g, "_")
+        .replace(/^_+|_+$/g, "")
+        .slice(0, 25);
+}
+
+function toCommandParam(param: OpenChatActionCommandParam): OpenChatCommandParam {
+    const paramType = (() => {
+        switch (param.type) {
+            case "integer":
+                return {
+                    IntegerParam: {
+                        min_value: Number.MIN_SAFE_INTEGER,
+                        max_value: Number.MAX_SAFE_INTEGER,
+                        choices: [],
+                    },
+                };
+            case "decimal":
+                return {
+                    DecimalParam: {
+                        min_value: -Number.MAX_VALUE,
+                        max_value: Number.MAX_VALUE,
+                        choices: [],
+                    },
+                };
+            case "boolean":
+                return "BooleanParam";
+            case "user":
+                return "UserParam";
+            default:
+                return {
+                    StringParam: {
+                        min_length: param.required ? 1 : 0,
+                        max_length: 2000,
+                        choices: [],
+                        multi_line: param.option === GENERIC_INPUT_PARAM.option,
+                    },
+                };
+        }
+    })();
+
+    return {
+        name: param.name,
+        required: Boolean(param.required),
+        description: param.description ?? param.name,
+        param_type: paramType as OpenChatCommandParam["param_type"],
+    } as OpenChatCommandParam;
+}
+
+function readParam(client: BotClient, param: OpenChatActionCommandParam): unknown {
+    switch (param.type) {
+        case "integer": {
+            const value = client.integerArg(param.name);
+            return value === undefined ? undefined : Number(value);
+        }
+        case "decimal":
+            return client.decimalArg(param.name);
+        case "boolean":
+            return client.booleanArg(param.name);
+        case "user":
+            return client.userArg(param.name);
+        default:
+            return client.stringArg(param.name);
+    }
+}
+
+function findAction(runtime: IAgentRuntime, name: string): Action | undefined {
+    const normalized = name.trim().toUpperCase();
+    return runtime.actions.find(
+        (action) =>
+            action.name.toUpperCase() === normalized ||
+            action.similes?.some((simile) => simile.toUpperCase() === normalized),
+    );
+}
+
+function createActionCommandHandler(
+    action: Action,
+    commandName: string,
+    params: OpenChatActionCommandParam[],
+): OpenChatCommandDefinition["handler"] {
+    return async (context: OpenChatCommandContext) => {
+        const { res, client, runtime, service } = context;
+        const running = (await client.createTextMessage(`Running /${commandName}...`)).setFinalised(false);
+        res.status(200).json(success(running));
+
+        const options: Record<string, unknown> = {};
+        for (const param of params) {
+            const value = readParam(client, param);
+            if (value !== undefined) {
+                options[param.option] = param.list ? [value] : value;
+            }
+        }
+
+        const input = typeof options.input === "string" ? options.input.trim() : "";
+        const prepared = await prepareCommandMessage(client, runtime, service, input || `/${commandName}`);
+        if (!prepared) {
+            // The reason went out as an ephemeral message; close the "Running" message as well
+            await new CommandPlaceholder(runtime, client).finalise(`⚠️ /${commandName} could not run here.`);
+            return;
+        }
+        const placeholder = new CommandPlaceholder(runtime, client, {
+            queue: service.getOutboundQueue(),
+            chatKey: prepared.metadata.chatId,
+        });
+
+        // The command invocation is not a chat message actions should target
+        const openchatMetadata = { ...prepared.metadata, messageId: "" };
+        let state: State | undefined;
+        try {
+            state = await runtime.composeState(prepared.memory);
+        } catch (error: any) {
+            runtime.logger?.warn?.(
+                `[OpenChat] Failed to compose state for /${commandName}`,
+                error?.message || error,
+            );
+        }
+        state = {
+            values: {},
+            data: {},
+            text: "",
+            ...state,
+            openchat: {
+                ...(state?.openchat as Record<string, unknown> | undefined),
+                metadata: openchatMetadata,
+            },
+        };
+
+        let isValid: boolean;
+        try {
+            isValid = await action.validate(runtime, prepared.memory, state);
+        } catch (error: any) {
+            runtime.logger?.error(
+                `[OpenChat] Error validating ${action.name} for /${commandName}:`,
+                error?.message || error,
+            );
+            await placeholder.finalise(`⚠️ /${commandName} failed. Please try again.`);
+            return;
+        }
+        if (!isValid) {
+            await placeholder.finalise(`⚠️ /${commandName} is not available in this chat right now.`);
+            return;
+        }
+
+        const callback = createCommandResponseCallback(runtime, client, prepared, {
+            installationClient: service.createClientForLocation(prepared.installation.location),
+            placeholder,
+            outboundQueue: service.getOutboundQueue(),
+        });
+
+        dispatchCommandJob(context, placeholder, prepared.metadata.locationKey, async (signal) => {
+            try {
+                await action.handler(
+                    runtime,
+                    prepared.memory,
+                    state,
+                    { ...options, openchatMetadata, openchatClient: client },
+                    guardCallback(callback, signal),
+                );
+            } catch (error: any) {
+                if (signal.aborted) {
+                    return;
+                }
+                runtime.logger?.error(
+                    `[OpenChat] Error running ${action.name} for /${commandName}:`,
+                    error?.message || error,
+                );
+                if (!placeholder.isFinalised) {
+                    await placeholder.finalise(`⚠️ /${commandName} failed. Please try again.`);
+                }
+                return;
+            }
+
+            if (!placeholder.isFinalised && !signal.aborted) {
+                await placeholder.finalise("✅ Done.");
+            }
+        });
+    };
+}
+
+/**
+ * Read the opt-in action command list from OPENCHAT_ACTION_COMMANDS
+ * (comma separated `ACTION` or `command=ACTION`) and `settings.openchat.actionCommands`.
+ */
+export function getActionCommandConfigs(runtime: IAgentRuntime): OpenChatActionCommandConfig[] {
+    const configs: OpenChatActionCommandConfig[] = [];
+
+    const setting = runtime.getSetting("OPENCHAT_ACTION_COMMANDS");
+    if (typeof setting === "string" && setting.trim()) {
+        for (const entry of setting.split(",")) {
+            const [left, right] = entry.split("=").map((part) => part.trim());
+            if (!left) {
+                continue;
+            }
+            configs.push(right ? { command: left, action: right } : { action: left });
+        }
+    }
+
+    const configured = (runtime.character?.settings as any)?.openchat?.actionCommands;
+    if (Array.isArray(configured)) {
+        for (const entry of configured) {
+            configs.push(typeof entry === "string" ? { action: entry } : entry);
+        }
+    }
+
+    return configs;
+}
+
+/**
+ * Build slash command definitions for the configured runtime actions
+ */
+export function createActionCommands(runtime: IAgentRuntime): OpenChatCommandDefinition[] {
+    const commands: OpenChatCommandDefinition[] = [];
+
+    for (const config of getActionCommandConfigs(runtime)) {
+        const action = findAction(runtime, config.action);
+        if (!action) {
+            runtime.logger?.warn?.(
+                `[OpenChat] Cannot expose unknown action '${config.action}' as a command`,
+            );
+            continue;
+        }
+
+        const preset = ACTION_COMMAND_PRESETS[action.name] ?? {};
+        const name = config.command ?? preset.command ?? deriveCommandName(action.name);
+        const params = config.params ?? preset.params ?? [GENERIC_INPUT_PARAM];
+
+        commands.push({
+            name,
+            description: config.description ?? preset.description ?? action.description,
+            params: params.map(toCommandParam),
+            defaultRole: config.defaultRole ?? preset.defaultRole,
+            permissions: config.permissions ?? preset.permissions,
+            handler: createActionCommandHandler(action, name, params),
+        });
+    }
+
+    return commands;
+}
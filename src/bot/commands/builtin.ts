@@ -0,0 +1,297 @@
+import { IAgentRuntime, MessageProcessingOptions } from "@elizaos/core";
+import {
+    OpenChatCommandContext,
+    OpenChatCommandDefinition,
+    WithBotClient,
+} from "../../types/index.js";
+import {
+    createCommandResponseCallback,
+    dispatchCommandJob,
+    guardCallback,
+    prepareCommandMessage,
+    respondEphemeral,
+    sendEphemeralError,
+    success,
+} from "./commandMessage.js";
+import { CommandPlaceholder } from "./commandPlaceholder.js";
+
+async function sendFallbackResponse(
+    runtime: IAgentRuntime,
+    client: WithBotClient["botClient"],
+    message: string,
+): Promise<void> {
+    const character = runtime.character;
+    const prompt = `You are ${character.name}. ${character.bio?.[0] || ""}
+
+User: ${message}
+
+${character.name}:`;
+
+    let responseText: string;
+
+    try {
+        if (typeof (runtime as any).generateText === "function") {
+            responseText = await (runtime as any).generateText(prompt);
+        } else if (typeof (runtime as any).completion === "function") {
+            const response = await (runtime as any).completion({
+                prompt,
+                stop: ["\n"],
+            });
+            responseText = response.text || response.content || String(response);
+        } else {
+            responseText =
+                character.postExamples?.[0] || character.bio?.[0] || "Hello! How can I help you?";
+        }
+    } catch (error: any) {
+        runtime.logger?.error("[OpenChat] Text generation error:", error?.message || error);
+        responseText = "I'm having trouble generating a response. Please try again.";
+    }
+
+    if (typeof responseText !== "string") {
+        if (responseText && typeof responseText === "object") {
+            responseText = (responseText as any).text
+                || (responseText as any).content?.text
+                || JSON.stringify(responseText);
+        } else {
+            responseText = String(responseText || "I'm here to help!");
+        }
+    }
+
+    const finalText = responseText.trim();
+    const responseMsg = (await client.createTextMessage(finalText)).setFinalised(true);
+    await client.sendMessage(responseMsg);
+}
+
+/**
+ * Handle chat command - properly integrated with ElizaOS message system
+ */
+async function handleChatCommand(context: OpenChatCommandContext): Promise<void> {
+    const { res, client, runtime, service } = context;
+    // Send immediate placeholder to frontend only
+    const thinking = (await client.createTextMessage("Thinking...")).setFinalised(false);
+    res.status(200).json(success(thinking));
+
+    // Get message argument
+    const message = client.stringArg("message");
+    if (message === undefined) {
+        const msg = (await client.createTextMessage("Please provide a message.")).makeEphemeral().setFinalised(true);
+        await client.sendMessage(msg);
+        return;
+    }
+    
+    const prepared = await prepareCommandMessage(client, runtime, service, message);
+    if (!prepared) {
+        return;
+    }
+
+    if (!runtime.messageService) {
+        runtime.logger?.warn("[OpenChat] messageService unavailable, cannot process message");
+        await sendEphemeralError(client, "⚠️ Message processing service unavailable. Please try again later.");
+        return;
+    }
+
+    const placeholder = new CommandPlaceholder(runtime, client, {
+        queue: service.getOutboundQueue(),
+        chatKey: prepared.metadata.chatId,
+    });
+    const callback = createCommandResponseCallback(runtime, client, prepared, {
+        installationClient: service.createClientForLocation(prepared.installation.location),
+        placeholder,
+        outboundQueue: service.getOutboundQueue(),
+    });
+
+    // Runtimes with streaming support report partial output through onStreamChunk; others ignore it
+    const streaming = runtime.getSetting("OPENCHAT_STREAM_RESPONSES") !== "false";
+    const processingOptions: MessageProcessingOptions | undefined = streaming
+        ? { onStreamChunk: (chunk: string) => placeholder.append(chunk) }
+        : undefined;
+
+    const messageService = runtime.messageService;
+    dispatchCommandJob(context, placeholder, prepared.metadata.locationKey, async (signal) => {
+        try {
+            await messageService.handleMessage(
+                runtime,
+                prepared.memory,
+                guardCallback(callback, signal),
+                processingOptions,
+            );
+        } catch (error: any) {
+            if (signal.aborted) {
+                return;
+            }
+            runtime.logger?.error("[OpenChat] Error handling chat command:", error?.message || error);
+            if (!placeholder.isFinalised) {
+                await placeholder.finalise("⚠️ Failed to process your message. Please try again.");
+            } else {
+                await sendEphemeralError(client, "⚠️ Failed to process your message. Please try again.");
+            }
+            return;
+        }
+
+        if (!placeholder.isFinalised && !signal.aborted) {
+            // The agent chose not to reply; never leave "Thinking..." behind
+            await placeholder.finalise(
+                placeholder.partialText.trim() || "🤔 I don't have anything to add to that.",
+            );
+        }
+    });
+}
+
+/**
+ * Handle cancel command
+ */
+async function handleCancelCommand(context: OpenChatCommandContext): Promise<void> {
+    const { client, service } = context;
+    const { locationKey } = service.resolveCommandLocation(client);
+    const cancelled = await service.getCommandJobs().cancel(client.initiator ?? "unknown", locationKey);
+    await respondEphemeral(
+        context.res,
+        client,
+        cancelled > 0
+            ? `🛑 Cancelled ${cancelled === 1 ? "your request" : `${cancelled} requests`}.`
+            : "You don't have anything in progress here.",
+    );
+}
+
+/**
+ * Handle stats command
+ * Shows this chat's membership activity and the feedback reactions on the agent's messages.
+ */
+async function handleStatsCommand(context: OpenChatCommandContext): Promise<void> {
+    const { client, service } = context;
+    const { locationKey } = service.resolveCommandLocation(client);
+    const membership = await service.getMembership().getStats(locationKey);
+    const feedback = await service.getMessageManager().getReactionFeedback().getStats(locationKey);
+
+    const statsText = `📊 **Chat activity**
+
+**Members:** ${membership.joined} joined, ${membership.left} left, ${membership.removed} removed, ${membership.blocked} blocked, ${membership.roleChanged} role changes
+**Feedback on my messages:** ${feedback.positive} positive, ${feedback.negative} negative`;
+    await respondEphemeral(context.res, client, statsText);
+}
+
+/**
+ * Handle help command
+ */
+async function handleHelpCommand({
+    res,
+    client,
+    runtime,
+    service,
+}: OpenChatCommandContext): Promise<void> {
+    const character = runtime.character;
+    const commandLines = service
+        .getCommandRegistry()
+        .list()
+        .map((command) => `• \`${formatCommandUsage(command)}\` - ${command.description}`)
+        .join("\n");
+
+    const helpText = `🤖 **${character.name}** - AI Agent
+
+**Available Commands:**
+${commandLines}
+
+**About Me:**
+${character.bio?.[0] || "I'm an AI agent powered by ElizaOS"}
+
+**How to Use:**
+Simply use the /chat command followed by your message, or send me a direct message!`;
+
+    const message = (await client.createTextMessage(helpText)).setFinalised(true);
+    res.status(200).json(success(message));
+    await client.sendMessage(message);
+}
+
+/**
+ * Handle info command
+ */
+async function handleInfoCommand({
+    res,
+    client,
+    runtime,
+}: OpenChatCommandContext): Promise<void> {
+    const character = runtime.character;
+
+    const topics = character.topics?.slice(0, 5).join(", ") || "various topics";
+    const style = character.style?.all?.[0] || character.style?.chat?.[0] || "friendly and helpful";
+
+    const infoText = `📋 **About ${character.name}**
+
+${character.bio?.[0] || "I'm an AI agent powered by ElizaOS"}
+
+**Topics I can discuss:** ${topics}
+
+**Communication style:** ${style}
+
+**Capabilities:**
+• Intelligent conversation
+• Context-aware responses
+• Memory of past interactions
+• Task execution
+
+Powered by ElizaOS 🚀`;
+
+    const message = (await client.createTextMessage(infoText)).setFinalised(true);
+    res.status(200).json(success(message));
+    await client.sendMessage(message);
+}
+
+function formatCommandUsage(command: OpenChatCommandDefinition): string {
+    const params = (command.params ?? [])
+        .map((param) => (param.required ? `<${param.name}>` : `[${param.name}]`))
+        .join(" ");
+    return params ? `/${command.name} ${params}` : `/${command.name}`;
+}
+
+/**
+ * Commands shipped with the plugin
+ */
+export function createBuiltinCommands(runtime: IAgentRuntime): OpenChatCommandDefinition[] {
+    const character = runtime.character;
+    return [
+        {
+            name: "chat",
+            description: `Chat with ${character.name}`,
+            params: [
+                {
+                    name: "message",
+                    required: true,
+                    description: "Your message to the agent",
+                    placeholder: "Hello! How can you help me?",
+                    param_type: {
+                        StringParam: {
+                            min_length: 1,
+                            max_length: 2000,
+                            choices: [],
+                            multi_line: true,
+                        },
+                    },
+                },
+            ],
+            handler: handleChatCommand,
+        },
+        {
+            name: "cancel",
+            description: "Stop your request that is still in progress",
+            permissions: {},
+            handler: handleCancelCommand,
+        },
+        {
+            name: "stats",
+            description: "Show membership changes and feedback on the agent's messages in this chat",
+            defaultRole: "Admin",
+            permissions: {},
+            handler: handleStatsCommand,
+        },
+        {
+            name: "help",
+            description: "Get information about available commands and capabilities",
+            handler: handleHelpCommand,
+        },
+        {
+            name: "info",
+            description: `Get information about ${character.name}`,
+            handler: handleInfoCommand,
+        },
+    ];
+}
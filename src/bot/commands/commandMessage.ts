@@ -0,0 +1,217 @@
+import {
+    ChannelType,
+    Content,
+    HandlerCallback,
+    IAgentRuntime,
+    Memory,
+    MemoryType,
+    UUID,
+} from "@elizaos/core";
+import { Response } from "express";
+import {
+    OpenChatCommandContext,
+    OpenChatInstallation,
+    WithBotClient,
+} from "../../types/index.js";
+import { OpenChatClientService } from "../../services/openchatClient.js";
+import {
+    createOpenChatResponseCallback,
+    type OpenChatResponderOptions,
+    type OpenChatResponseTarget,
+} from "../../services/openchatResponder.js";
+import { makeMessageUuid, makeRoomUuid, makeUserUuid } from "../../utils/openchatIds.js";
+import type { CommandPlaceholder } from "./commandPlaceholder.js";
+
+export interface PreparedCommandMessage extends OpenChatResponseTarget {
+    memory: Memory;
+    installation: OpenChatInstallation;
+}
+
+/**
+ * Helper to send ephemeral error message
+ */
+export async function sendEphemeralError(
+    client: WithBotClient["botClient"],
+    message: string
+): Promise<void> {
+    const msg = (await client.createTextMessage(message)).makeEphemeral().setFinalised(true);
+    await client.sendMessage(msg);
+}
+
+/**
+ * Helper to create success response
+ */
+export function success(msg?: any) {
+    return {
+        message: msg?.toResponse(),
+    };
+}
+
+/**
+ * Answer a command with an ephemeral message carried in the HTTP response
+ * Nothing is sent through the bot client, so this works even without message permissions.
+ */
+export async function respondEphemeral(
+    res: Response,
+    client: WithBotClient["botClient"],
+    text: string,
+): Promise<void> {
+    const msg = (await client.createTextMessage(text)).makeEphemeral().setFinalised(true);
+    res.status(200).json(success(msg));
+}
+
+/**
+ * Deliver agent responses for a command
+ * The first text response finalises the placeholder in place; later ones are sent as new messages.
+ */
+export function createCommandResponseCallback(
+    runtime: IAgentRuntime,
+    client: WithBotClient["botClient"],
+    target: OpenChatResponseTarget,
+    options: OpenChatResponderOptions = {},
+): HandlerCallback {
+    return createOpenChatResponseCallback(runtime, client, target, options);
+}
+
+/**
+ * Drop responses that arrive after a command job was cancelled or timed out
+ */
+export function guardCallback(callback: HandlerCallback, signal: AbortSignal): HandlerCallback {
+    return async (content) => (signal.aborted ? [] : callback(content));
+}
+
+/**
+ * Run a command's work on the service's job queue
+ * Refusals, timeouts and /cancel are reported by finalising the placeholder (or ephemerally
+ * once it already holds a response).
+ */
+export function dispatchCommandJob(
+    context: OpenChatCommandContext,
+    placeholder: CommandPlaceholder,
+    locationKey: string,
+    run: (signal: AbortSignal) => Promise<void>,
+): void {
+    const { client, service } = context;
+    const command = service.getCommandRegistry().get(client.commandName);
+    const report = async (text: string) => {
+        if (!placeholder.isFinalised) {
+            await placeholder.finalise(text);
+        } else {
+            await sendEphemeralError(client, text);
+        }
+    };
+
+    const submission = service.getCommandJobs().submit({
+        command: client.commandName ?? "unknown",
+        locationKey,
+        initiator: client.initiator ?? "unknown",
+        timeoutMs: command?.timeoutMs,
+        run,
+        onTimeout: () => report("⌛ That took too long, so I stopped. Please try again."),
+        onCancel: () => report("🛑 Cancelled."),
+    });
+    if (submission.accepted) {
+        return;
+    }
+
+    const text =
+        submission.reason === "user_limit"
+            ? "⏳ You already have a request in progress. Wait for it to finish or use /cancel."
+            : "⏳ I'm busy with other requests right now. Please try again shortly.";
+    void report(text).catch((error: any) => {
+        context.runtime.logger?.warn?.("[OpenChat] Failed to report refused command job", error?.message || error);
+    });
+}
+
+/**
+ * Resolve the installation for a command and build the incoming ElizaOS memory
+ * Sends an ephemeral explanation and returns undefined when the chat context is unusable.
+ */
+export async function prepareCommandMessage(
+    client: WithBotClient["botClient"],
+    runtime: IAgentRuntime,
+    service: OpenChatClientService,
+    text: string,
+): Promise<PreparedCommandMessage | undefined> {
+    const chatId = client.chatId;
+    if (!chatId) {
+        runtime.logger?.warn("[OpenChat] Chat identifier missing in command scope");
+        await sendEphemeralError(client, "⚠️ Unable to identify chat context. Please try again.");
+        return undefined;
+    }
+
+    const installation = service.getInstallationByChatId(chatId);
+    if (!installation) {
+        runtime.logger?.warn("[OpenChat] Installation not found for chat command");
+        await sendEphemeralError(client, "⚠️ Bot is not properly installed in this chat. Please reinstall.");
+        return undefined;
+    }
+
+    const baseMessageId = client.messageId ?? BigInt(Date.now());
+    const metadata = service.buildMessageMetadata(
+        chatId,
+        baseMessageId,
+        installation.record.apiGateway,
+        client.threadRootMessageId ?? undefined,
+    );
+
+    const channelType = metadata.chatKind === "direct" ? ChannelType.DM : ChannelType.GROUP;
+    const roomId = makeRoomUuid(metadata.chatKind, metadata.roomKey);
+    const senderPrincipal = client.initiator || "OpenChat User";
+    const senderId = makeUserUuid(senderPrincipal);
+    const incomingMessageId = makeMessageUuid(`${metadata.chatId}-${metadata.messageId}`);
+
+    try {
+        await runtime.ensureConnection?.({
+            entityId: senderId,
+            roomId,
+            userName: senderPrincipal,
+            name: senderPrincipal,
+            source: "openchat",
+            worldId: roomId,
+            type: channelType,
+            channelId: metadata.chatId,
+        });
+    } catch (connectionError: any) {
+        runtime.logger?.warn?.(
+            "[OpenChat] ensureConnection failed",
+            connectionError?.message || connectionError,
+        );
+    }
+
+    const content: Content = {
+        text,
+        source: "openchat",
+        channelType,
+        mentionContext: {
+            isMention: false,
+            isReply: Boolean(metadata.threadId),
+            isThread: Boolean(metadata.threadId),
+            mentionType: metadata.threadId ? "thread" : undefined,
+        },
+    } as Content;
+
+    const memory: Memory = {
+        id: incomingMessageId,
+        entityId: senderId,
+        agentId: runtime.agentId,
+        roomId,
+        content,
+        metadata: {
+            type: MemoryType.MESSAGE,
+            source: "openchat",
+            scope: "room",
+            openchat: {
+                ...metadata,
+                sender: senderPrincipal,
+            },
+        } as any,
+        embedding: [],
+        createdAt: Date.now(),
+    };
+
+    // Commands issued inside a thread get the thread's root and earlier replies as context
+    await service.getMessageManager().getThreadContext().prepare(client, metadata);
+
+    return { memory, metadata, installation, roomId, incomingMessageId, channelType };
+}
@@ -0,0 +1,115 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { BotClient } from "@open-ic/openchat-botclient-ts";
+import type { OpenChatOutboundQueue } from "../../services/openchatOutboundQueue.js";
+import { getMaxMessageLength } from "../../services/openchatResponder.js";
+
+const DEFAULT_UPDATE_INTERVAL_MS = 1000;
+
+type SendResult = Awaited<ReturnType<BotClient["sendMessage"]>>;
+
+/**
+ * Outbound queue the placeholder's updates go through, and the chat they go to
+ */
+export interface CommandPlaceholderOutbound {
+    queue: OpenChatOutboundQueue;
+    chatKey: string;
+}
+
+/**
+ * The "Thinking..." message returned for a command
+ * Command-scoped messages share the command's message id, so sending again through the
+ * command client edits the placeholder in place instead of posting a second message.
+ * Streamed updates and the final text go through the outbound queue when one is given; at
+ * most one streamed update is in flight, so previews never pile up behind the rate limit.
+ */
+export class CommandPlaceholder {
+    private finalised = false;
+    private streamedText = "";
+    private lastUpdateAt = 0;
+    private updating = false;
+    private pendingUpdate: Promise<void> = Promise.resolve();
+    private readonly updateIntervalMs: number;
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly client: BotClient,
+        private readonly outbound?: CommandPlaceholderOutbound,
+    ) {
+        const configured = parseInt(
+            (runtime.getSetting("OPENCHAT_STREAM_UPDATE_INTERVAL_MS") as string) || "",
+            10,
+        );
+        this.updateIntervalMs =
+            Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_UPDATE_INTERVAL_MS;
+    }
+
+    public get isFinalised(): boolean {
+        return this.finalised;
+    }
+
+    /**
+     * Text streamed so far (empty when the runtime does not stream)
+     */
+    public get partialText(): string {
+        return this.streamedText;
+    }
+
+    /**
+     * Append a streamed chunk and refresh the placeholder, throttled to the update interval
+     */
+    public async append(chunk: string): Promise<void> {
+        if (this.finalised || !chunk) {
+            return;
+        }
+        this.streamedText += chunk;
+
+        const now = Date.now();
+        if (this.updating || now - this.lastUpdateAt < this.updateIntervalMs) {
+            return;
+        }
+
+        // Long responses are split when finalised; the live preview shows only what fits
+        const snapshot = this.streamedText.trim().slice(0, getMaxMessageLength(this.runtime) - 2);
+        if (!snapshot) {
+            return;
+        }
+        this.lastUpdateAt = now;
+        this.updating = true;
+        this.pendingUpdate = this.deliver("stream update", async () => {
+            const message = (await this.client.createTextMessage(`${snapshot} ▍`)).setFinalised(false);
+            return this.client.sendMessage(message);
+        })
+            .then(
+                () => undefined,
+                (error: any) => {
+                    this.runtime.logger?.debug?.(
+                        "[OpenChat] Failed to stream placeholder update",
+                        error?.message || error,
+                    );
+                },
+            )
+            .finally(() => {
+                this.updating = false;
+            });
+    }
+
+    /**
+     * Replace the placeholder with the final text
+     * Must not be called from inside an outbound queue send for the same chat, which
+     * would wait on itself.
+     */
+    public async finalise(text: string): Promise<SendResult> {
+        this.finalised = true;
+        await this.pendingUpdate;
+        return this.deliver("response", async () => {
+            const message = (await this.client.createTextMessage(text)).setFinalised(true);
+            return this.client.sendMessage(message);
+        });
+    }
+
+    private deliver(label: string, send: () => Promise<SendResult>): Promise<SendResult> {
+        return this.outbound ? this.outbound.queue.send(this.outbound.chatKey, label, send) : send();
+    }
+}
+
+export default CommandPlaceholder;
@@ -0,0 +1,144 @@
+import { IAgentRuntime } from "@elizaos/core";
+import {
+    OpenChatCommandContext,
+    OpenChatCommandDefinition,
+    OpenChatMessageMetadata,
+} from "../../types/index.js";
+import { sendEphemeralError, success } from "./commandMessage.js";
+
+const NOT_INSTALLED = "⚠️ Bot is not properly installed in this chat. Please reinstall.";
+
+/**
+ * Metadata for the chat a command was issued in
+ */
+function resolveCommandMetadata({
+    client,
+    service,
+}: OpenChatCommandContext): OpenChatMessageMetadata | undefined {
+    const chatId = client.chatId;
+    const installation = chatId ? service.getInstallationByChatId(chatId) : undefined;
+    if (!chatId || !installation) {
+        return undefined;
+    }
+    return service.buildMessageMetadata(
+        chatId,
+        client.messageId ?? BigInt(Date.now()),
+        installation.record.apiGateway,
+        client.threadRootMessageId ?? undefined,
+    );
+}
+
+async function fail(context: OpenChatCommandContext, text: string): Promise<void> {
+    context.res.status(200).json(success());
+    await sendEphemeralError(context.client, text);
+}
+
+async function reply(context: OpenChatCommandContext, text: string): Promise<void> {
+    const message = (await context.client.createTextMessage(text)).setFinalised(true);
+    context.res.status(200).json(success(message));
+    await context.client.sendMessage(message);
+}
+
+function formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+        return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    }
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+}
+
+/**
+ * Handle documents command
+ */
+async function handleDocumentsCommand(context: OpenChatCommandContext): Promise<void> {
+    const metadata = resolveCommandMetadata(context);
+    if (!metadata) {
+        await fail(context, NOT_INSTALLED);
+        return;
+    }
+
+    const documents = await context.service.getMessageManager().getKnowledgeIngest().list(metadata);
+    if (documents.length === 0) {
+        await reply(context, "📚 No shared documents have been added to my knowledge here yet.");
+        return;
+    }
+
+    const lines = documents.map(
+        (document) =>
+            `• \`${document.id.slice(0, 8)}\` **${document.name}** (${formatSize(document.size)}, ${new Date(document.addedAt).toISOString().slice(0, 10)})`,
+    );
+    await reply(
+        context,
+        `📚 **Documents I remember here:**\n${lines.join("\n")}\n\nUse \`/forget <id or name>\` to remove one.`,
+    );
+}
+
+/**
+ * Handle forget command
+ */
+async function handleForgetCommand(context: OpenChatCommandContext): Promise<void> {
+    const reference = context.client.stringArg("document")?.trim();
+    if (!reference) {
+        await fail(context, "Please provide a document id or file name.");
+        return;
+    }
+
+    const metadata = resolveCommandMetadata(context);
+    if (!metadata) {
+        await fail(context, NOT_INSTALLED);
+        return;
+    }
+
+    try {
+        const removed = await context.service
+            .getMessageManager()
+            .getKnowledgeIngest()
+            .remove(metadata, reference);
+        await reply(
+            context,
+            removed
+                ? `🗑️ Forgot **${removed.name}**.`
+                : `No shared document matches \`${reference}\`. Use \`/documents\` to list them.`,
+        );
+    } catch (error: any) {
+        context.runtime.logger?.error("[OpenChat] Failed to forget document:", error?.message || error);
+        await reply(context, "⚠️ Failed to remove that document. Please try again.");
+    }
+}
+
+/**
+ * Commands for managing documents ingested from shared files (OPENCHAT_FILE_INGESTION)
+ */
+export function createDocumentCommands(runtime: IAgentRuntime): OpenChatCommandDefinition[] {
+    if (runtime.getSetting("OPENCHAT_FILE_INGESTION") !== "true") {
+        return [];
+    }
+    return [
+        {
+            name: "documents",
+            description: "List shared documents the agent has added to its knowledge",
+            handler: handleDocumentsCommand,
+        },
+        {
+            name: "forget",
+            description: "Remove a shared document from the agent's knowledge",
+            defaultRole: "Moderator",
+            params: [
+                {
+                    name: "document",
+                    required: true,
+                    description: "Document id (from /documents) or file name",
+                    placeholder: "spec.md",
+                    param_type: {
+                        StringParam: {
+                            min_length: 1,
+                            max_length: 200,
+                            choices: [],
+                            multi_line: false,
+                        },
+                    },
+                },
+            ],
+            handler: handleForgetCommand,
+        },
+    ];
+}
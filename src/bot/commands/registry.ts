@@ -0,0 +1,77 @@
+import { BotDefinition, Permissions } from "@open-ic/openchat-botclient-ts";
+import {
+    OpenChatCommandDefinition,
+    OpenChatPermissionSet,
+} from "../../types/index.js";
+
+const emptyPermissions = {
+    chat: [],
+    community: [],
+    message: [],
+};
+
+const DEFAULT_COMMAND_PERMISSIONS: OpenChatPermissionSet = {
+    message: ["Text"],
+    chat: ["ReadChatSummary"],
+};
+
+const COMMAND_NAME_PATTERN = /^[a-z0-9_]{1,25}$/;
+
+/**
+ * Single source of truth for the bot's slash commands.
+ * Generates the `commands` section of the bot definition and resolves handlers at execution time.
+ */
+export class OpenChatCommandRegistry {
+    private readonly commands = new Map<string, OpenChatCommandDefinition>();
+
+    public register(definition: OpenChatCommandDefinition): void {
+        if (!COMMAND_NAME_PATTERN.test(definition.name)) {
+            throw new Error(
+                `Invalid OpenChat command name '${definition.name}': use 1-25 lowercase letters, digits or underscores`,
+            );
+        }
+        if (typeof definition.handler !== "function") {
+            throw new Error(`OpenChat command '${definition.name}' is missing a handler`);
+        }
+        this.commands.set(definition.name, definition);
+    }
+
+    public unregister(name: string): boolean {
+        return this.commands.delete(name);
+    }
+
+    public get(name: string | undefined): OpenChatCommandDefinition | undefined {
+        return name ? this.commands.get(name) : undefined;
+    }
+
+    public has(name: string): boolean {
+        return this.commands.has(name);
+    }
+
+    public list(): OpenChatCommandDefinition[] {
+        return Array.from(this.commands.values());
+    }
+
+    /**
+     * Resolve the permissions a command declares, applying defaults
+     */
+    public getRequiredPermissions(definition: OpenChatCommandDefinition): OpenChatPermissionSet {
+        return definition.permissions ?? DEFAULT_COMMAND_PERMISSIONS;
+    }
+
+    public toBotDefinitionCommands(): BotDefinition["commands"] {
+        return this.list().map((definition) => ({
+            name: definition.name,
+            default_role: definition.defaultRole ?? definition.minRole ?? "Participant",
+            description: definition.description,
+            permissions: Permissions.encodePermissions({
+                ...emptyPermissions,
+                ...this.getRequiredPermissions(definition),
+            }),
+            direct_messages: definition.directMessages ?? true,
+            params: definition.params ?? [],
+        }));
+    }
+}
+
+export default OpenChatCommandRegistry;
@@ -1,6 +1,8 @@
+import { createHash } from "crypto";
 import { Request, Response } from "express";
 import { IAgentRuntime, ModelType } from "@elizaos/core";
 import {
+    BadRequestError,
     BotClient,
     BotEvent,
     BotChatEvent,
@@ -10,10 +12,23 @@ import {
     handleNotification,
 } from "@open-ic/openchat-botclient-ts";
 import { OpenChatClientService } from "../../services/openchatClient.js";
+import type { OpenChatSendTracker } from "../../services/openchatOutboundQueue.js";
+import { isReactionEvent, parseReactionEvent } from "../../services/openchatReactionFeedback.js";
+import {
+    OpenChatMembershipChange,
+    parseMembershipEvent,
+} from "../../services/openchatMembership.js";
+import {
+    NotifyRejection,
+    OpenChatNotifyGuard,
+    sendNotifyRejection,
+} from "../middleware/notifyGuard.js";
 
 async function sendWelcomeMessage(
     client: BotClient,
     runtime: IAgentRuntime,
+    service: OpenChatClientService,
+    chatKey: string,
     context: string,
 ): Promise<void> {
     const bioLine =
@@ -25,7 +40,13 @@ ${bioLine}
 Use \`/help\` to see available commands or \`/chat <message>\` to start chatting with me!`;
 
     const msg = (await client.createTextMessage(welcomeMessage)).setFinalised(true);
-    await client.sendMessage(msg);
+    const response = await service
+        .getOutboundQueue()
+        .send(chatKey, "welcome message", () => client.sendMessage(msg));
+    if (response.kind !== "success") {
+        runtime.logger?.error?.(`[OpenChat] Failed to send welcome message to ${context}`, response.message);
+        return;
+    }
     runtime.logger?.info?.(`[OpenChat] Sent welcome message to ${context}`);
 }
 
@@ -43,6 +64,7 @@ async function handleInstallEvent(
         timestamp
     );
     service.recordInstallation(event.location, record);
+    service.scheduleBackfill(event.location);
 
     const shouldWelcome = runtime.getSetting("OPENCHAT_WELCOME_NEW_MEMBERS") === "true";
     if (!shouldWelcome) {
@@ -56,7 +78,12 @@ async function handleInstallEvent(
     }
 
     try {
-        await sendWelcomeMessage(client, runtime, event.location.kind);
+        const locationKey = service.getLocationKey(event.location);
+        const installation = service.getInstallations().get(locationKey);
+        const chatKey = installation
+            ? service.buildMetadataFromInstallation(locationKey, installation).chatId
+            : locationKey;
+        await sendWelcomeMessage(client, runtime, service, chatKey, event.location.kind);
     } catch (error: any) {
         runtime.logger?.error?.(
             "[OpenChat] Error sending welcome message",
@@ -67,25 +94,30 @@ async function handleInstallEvent(
 
 function handleUninstallEvent(
     event: BotUninstalledEvent,
+    timestamp: bigint,
     service: OpenChatClientService,
 ): void {
-    service.recordUninstallation(event.location);
+    service.recordUninstallation(event.location, timestamp);
 }
 
+/**
+ * Welcome each member who joined or was added, one message per member
+ */
 async function handleMemberJoined(
     chatEvent: BotChatEvent,
+    userIds: string[],
     runtime: IAgentRuntime,
     service: OpenChatClientService,
     apiGateway: string,
 ): Promise<void> {
     const shouldWelcome = runtime.getSetting("OPENCHAT_WELCOME_NEW_MEMBERS") === "true";
-    if (!shouldWelcome || chatEvent.event.kind !== "member_joined") {
+    if (!shouldWelcome) {
         return;
     }
 
     const installation = service.getInstallationByChatId(chatEvent.chatId);
     if (!installation) {
-        runtime.logger?.warn?.("[OpenChat] Received member_joined for unknown installation");
+        runtime.logger?.warn?.("[OpenChat] Received a member join for unknown installation");
         return;
     }
 
@@ -108,36 +140,97 @@ async function handleMemberJoined(
         return "the room";
     })();
 
-    const profile = await service.resolveUserProfile(
-        chatEvent.event.userId,
-        installation.record.apiGateway || apiGateway,
-    );
-    const member = describeUser(profile, chatEvent.event.userId);
+    const chatKey = service.buildMessageMetadata(chatEvent.chatId, BigInt(0), apiGateway).chatId;
+    for (const userId of userIds) {
+        const profile = await service.resolveUserProfile(userId, installation.record.apiGateway || apiGateway);
+        const member = describeUser(profile, userId);
 
-    const prompt = `You are ${runtime.character.name}.
+        const prompt = `You are ${runtime.character.name}.
 Craft a warm human welcome for ${member.descriptor} who just joined ${roomDescriptor}.
 Keep it <=2 sentences, weave in one starter question, and avoid AI disclaimers.`;
 
-    let welcomeMsg = "";
-    try {
-        welcomeMsg = (await runtime.useModel(ModelType.TEXT_SMALL, { prompt })).trim();
-    } catch (error: any) {
-        runtime.logger?.warn?.("[OpenChat] Failed to generate LLM welcome", error?.message || error);
+        let welcomeMsg = "";
+        try {
+            welcomeMsg = (await runtime.useModel(ModelType.TEXT_SMALL, { prompt })).trim();
+        } catch (error: any) {
+            runtime.logger?.warn?.("[OpenChat] Failed to generate LLM welcome", error?.message || error);
+        }
+
+        if (!welcomeMsg) {
+            welcomeMsg = `Welcome to the chat, ${member.shortLabel}! 👋`;
+        }
+
+        if (!welcomeMsg.includes(member.mention)) {
+            welcomeMsg = `${member.mention} ${welcomeMsg}`.trim();
+        }
+
+        try {
+            const msg = (await client.createTextMessage(welcomeMsg)).setFinalised(true);
+            const response = await service
+                .getOutboundQueue()
+                .send(chatKey, "member welcome", () => client.sendMessage(msg));
+            if (response.kind !== "success") {
+                runtime.logger?.error?.("[OpenChat] Failed to send member welcome", response.message);
+            }
+        } catch (error: any) {
+            runtime.logger?.error?.("[OpenChat] Failed to send member welcome", error?.message || error);
+        }
     }
+}
 
-    if (!welcomeMsg) {
-        welcomeMsg = `Welcome to the chat, ${member.shortLabel}! 👋`;
+/**
+ * Keep room participants in step with the chat and say goodbye to members who left
+ * Farewells (OPENCHAT_FAREWELL_MEMBERS=true) are sent when someone leaves or is removed, not
+ * when they are blocked.
+ */
+async function handleMembershipChange(
+    chatEvent: BotChatEvent,
+    change: OpenChatMembershipChange,
+    runtime: IAgentRuntime,
+    service: OpenChatClientService,
+    apiGateway: string,
+): Promise<void> {
+    const metadata = service.buildMessageMetadata(chatEvent.chatId, BigInt(0), apiGateway);
+    await service.getMembership().apply(change, metadata);
+
+    if (change.kind === "joined") {
+        await handleMemberJoined(chatEvent, change.userIds, runtime, service, apiGateway);
+        return;
+    }
+    if (
+        (change.kind !== "left" && change.kind !== "removed") ||
+        runtime.getSetting("OPENCHAT_FAREWELL_MEMBERS") !== "true"
+    ) {
+        return;
     }
 
-    if (!welcomeMsg.includes(member.mention)) {
-        welcomeMsg = `${member.mention} ${welcomeMsg}`.trim();
+    const installation = service.getInstallationByChatId(chatEvent.chatId);
+    if (!installation) {
+        runtime.logger?.warn?.(`[OpenChat] Received a member ${change.kind} event for unknown installation`);
+        return;
     }
+    const client = service.createClientForScope(
+        installation.scope,
+        installation.record.apiGateway || apiGateway,
+        installation.record.grantedAutonomousPermissions,
+    );
+    const template = (runtime.getSetting("OPENCHAT_FAREWELL_MESSAGE") as string) || "Goodbye, {name}! 👋";
 
-    try {
-        const msg = (await client.createTextMessage(welcomeMsg)).setFinalised(true);
-        await client.sendMessage(msg);
-    } catch (error: any) {
-        runtime.logger?.error?.("[OpenChat] Failed to send member welcome", error?.message || error);
+    for (const userId of change.userIds) {
+        const profile = await service.resolveUserProfile(userId, installation.record.apiGateway || apiGateway);
+        const member = describeUser(profile, userId);
+        try {
+            const text = template.replace(/\{name\}/g, member.shortLabel);
+            const msg = (await client.createTextMessage(text)).setFinalised(true);
+            const response = await service
+                .getOutboundQueue()
+                .send(metadata.chatId, "member farewell", () => client.sendMessage(msg));
+            if (response.kind !== "success") {
+                runtime.logger?.error?.("[OpenChat] Failed to send member farewell", response.message);
+            }
+        } catch (error: any) {
+            runtime.logger?.error?.("[OpenChat] Failed to send member farewell", error?.message || error);
+        }
     }
 }
 
@@ -191,6 +284,7 @@ async function handleMessageEvent(
         chatEvent.event.messageId,
         apiGateway,
         chatEvent.thread,
+        chatEvent.eventIndex,
     );
 
     await service
@@ -198,6 +292,34 @@ async function handleMessageEvent(
         .handleMessageEvent(activeClient, chatEvent, metadata);
 }
 
+async function handleReactionEvent(
+    client: BotClient,
+    chatEvent: BotChatEvent,
+    apiGateway: string,
+    service: OpenChatClientService,
+): Promise<void> {
+    const installation = service.getInstallationByChatId(chatEvent.chatId);
+    const activeClient = installation
+        ? service.createClientForScope(
+            installation.scope,
+            installation.record.apiGateway || apiGateway,
+            installation.record.grantedAutonomousPermissions,
+        )
+        : client;
+
+    const metadata = service.buildMessageMetadata(
+        chatEvent.chatId,
+        BigInt(0),
+        apiGateway,
+        chatEvent.thread,
+        chatEvent.eventIndex,
+    );
+
+    await service
+        .getMessageManager()
+        .handleReactionEvent(activeClient, chatEvent, metadata);
+}
+
 async function routeBotEvent(
     runtime: IAgentRuntime,
     service: OpenChatClientService,
@@ -211,15 +333,19 @@ async function routeBotEvent(
             await handleInstallEvent(event, timestamp, apiGateway, runtime, service);
             return;
         case "bot_uninstalled_event":
-            handleUninstallEvent(event, service);
+            handleUninstallEvent(event, timestamp, service);
             return;
-        case "bot_chat_event":
-            if (event.event.kind === "member_joined") {
-                await handleMemberJoined(event, runtime, service, apiGateway);
+        case "bot_chat_event": {
+            const membershipChange = parseMembershipEvent(event.event);
+            if (membershipChange) {
+                await handleMembershipChange(event, membershipChange, runtime, service, apiGateway);
+            } else if (isReactionEvent(event.event)) {
+                await handleReactionEvent(client, event, apiGateway, service);
             } else {
                 await handleMessageEvent(client, event, apiGateway, runtime, service);
             }
             return;
+        }
         case "bot_community_event":
             runtime.logger?.debug?.(
                 "[OpenChat] Received community event",
@@ -231,25 +357,103 @@ async function routeBotEvent(
     }
 }
 
+/**
+ * Dedupe key for an event: chat, thread and message id for messages, event index otherwise
+ * Edits and deletions reuse the message id, so their state is part of the key; reactions are
+ * keyed by message, user, emoji and notification time.
+ * Installation lifecycle events are idempotent and are not deduplicated.
+ */
+function getEventDedupeKey(
+    service: OpenChatClientService,
+    event: BotEvent,
+    timestamp: bigint,
+): string | undefined {
+    if (event.kind !== "bot_chat_event") {
+        return undefined;
+    }
+    const { chatId } = service.buildMessageMetadata(event.chatId, BigInt(0), "");
+    const thread = event.thread ?? "";
+    if (event.event.kind === "message") {
+        const key = `${chatId}:${thread}:m${event.event.messageId.toString()}`;
+        if (event.event.deleted) {
+            return `${key}:deleted`;
+        }
+        if (event.event.edited) {
+            const content = JSON.stringify(event.event.content, (_key, value) =>
+                typeof value === "bigint" ? value.toString() : value,
+            );
+            return `${key}:edited:${createHash("sha1").update(content).digest("hex").slice(0, 16)}`;
+        }
+        return key;
+    }
+    const reaction = parseReactionEvent(event.event);
+    if (reaction) {
+        const change = reaction.added ? "+" : "-";
+        return `${chatId}:${thread}:r${reaction.messageId}:${reaction.userId}:${change}${reaction.reaction}:${timestamp}`;
+    }
+    return `${chatId}:${thread}:e${event.eventIndex}`;
+}
+
 export async function notifyHandler(
     req: Request,
     res: Response,
     runtime: IAgentRuntime,
     service: OpenChatClientService,
+    guard: OpenChatNotifyGuard,
 ): Promise<void> {
     const signature = req.headers["x-oc-signature"];
     if (!signature || typeof signature !== "string") {
-        res.status(400).json({ error: "Missing OpenChat signature" });
+        sendNotifyRejection(res, {
+            status: 400,
+            code: "missing_signature",
+            message: "Missing OpenChat signature",
+        });
         return;
     }
 
+    // Set by the callbacks below when the notification is refused rather than failed
+    let rejection: NotifyRejection | undefined;
     try {
         await handleNotification(
             signature,
             req.body as Buffer,
             service.getFactory(),
             async (client, event, timestamp: bigint, apiGateway: string) => {
-                await routeBotEvent(runtime, service, client, event, timestamp, apiGateway);
+                rejection = guard.checkFreshness(timestamp);
+                if (rejection) {
+                    return;
+                }
+                // Only verified signatures are remembered, so unsigned junk cannot flush the replay cache
+                rejection = guard.checkSignature(signature);
+                if (rejection) {
+                    return;
+                }
+                const dedupeKey = getEventDedupeKey(service, event, timestamp);
+                const deduplicator = service.getEventDeduplicator();
+                if (dedupeKey && !(await deduplicator.claim(dedupeKey))) {
+                    runtime.logger?.debug?.(`[OpenChat] Skipping duplicate notification ${dedupeKey}`);
+                    return;
+                }
+                const tracker: OpenChatSendTracker = { sent: 0 };
+                try {
+                    await service.getOutboundQueue().track(tracker, () =>
+                        routeBotEvent(runtime, service, client, event, timestamp, apiGateway),
+                    );
+                } catch (error: any) {
+                    if (dedupeKey && tracker.sent > 0) {
+                        // The agent already replied, so a retry would only repeat it; keep the claim
+                        runtime.logger?.error?.(
+                            `[OpenChat] Notification ${dedupeKey} failed after ${tracker.sent} message(s) were sent`,
+                            error?.message || error,
+                        );
+                        return;
+                    }
+                    // Nothing reached the chat, so let OpenChat's retry of this notification be processed
+                    if (dedupeKey) {
+                        await deduplicator.release(dedupeKey);
+                    }
+                    throw error;
+                }
             },
             (failure) => {
                 const errorMessage =
@@ -266,6 +470,16 @@ export async function notifyHandler(
                     return;
                 }
 
+                // The botclient reports payloads that fail signature verification as bad requests
+                if (failure?.error instanceof BadRequestError) {
+                    rejection = {
+                        status: 401,
+                        code: "invalid_signature",
+                        message: "Invalid OpenChat signature",
+                    };
+                    return;
+                }
+
                 const reason =
                     failure?.error instanceof Error
                         ? failure.error
@@ -273,8 +487,15 @@ export async function notifyHandler(
                 throw reason;
             },
         );
+        if (rejection) {
+            runtime.logger?.warn?.(`[OpenChat] Rejected notification: ${rejection.message}`);
+            sendNotifyRejection(res, rejection);
+            return;
+        }
         res.status(200).json({ ok: true });
     } catch (error: any) {
+        // A failed delivery may be retried by OpenChat with the same signature
+        guard.forgetSignature(signature);
         runtime.logger?.error?.("[OpenChat] Notification error", error?.message || error);
         res.status(500).json({ error: "Internal server error" });
     }
@@ -0,0 +1,45 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { NextFunction, Request, Response } from "express";
+import { WithBotClient } from "../../types/index.js";
+import type { OpenChatClientService } from "../../services/openchatClient.js";
+import { respondEphemeral } from "../commands/commandMessage.js";
+
+/**
+ * Express middleware enforcing command access rules (roles and principal allowlists)
+ * against the command initiator before dispatch
+ */
+export function requireCommandAccess(runtime: IAgentRuntime, service: OpenChatClientService) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const client = (req as WithBotClient).botClient;
+        const command = client ? service.getCommandRegistry().get(client.commandName) : undefined;
+        if (!command) {
+            next();
+            return;
+        }
+
+        const location = service.resolveCommandLocation(client);
+        try {
+            const decision = await service.getCommandAccess().evaluate({
+                client,
+                command,
+                locationKey: location.locationKey,
+                chatKind: location.chatKind,
+                initiator: client.initiator,
+            });
+            if (decision.allowed) {
+                next();
+                return;
+            }
+
+            runtime.logger?.info?.(
+                `[OpenChat] Denied /${command.name} to ${client.initiator ?? "unknown user"} in ${location.locationKey}`,
+            );
+            await respondEphemeral(res, client, `🔒 ${decision.reason}`);
+        } catch (error: any) {
+            runtime.logger?.error?.("[OpenChat] Command access check failed", error?.message || error);
+            if (!res.headersSent) {
+                res.status(500).send("Internal server error");
+            }
+        }
+    };
+}
@@ -0,0 +1,94 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { BotClient, Permissions } from "@open-ic/openchat-botclient-ts";
+import { NextFunction, Request, Response } from "express";
+import { OpenChatPermissionSet, WithBotClient } from "../../types/index.js";
+import type { OpenChatClientService } from "../../services/openchatClient.js";
+import { respondEphemeral } from "../commands/commandMessage.js";
+
+/**
+ * Permissions granted to the bot for a command
+ * Reads the grant carried by the command JWT. When the JWT holds none, a warning is logged
+ * and the installation's stored command grant is used instead; undefined means neither
+ * could be read.
+ */
+export function resolveGrantedCommandPermissions(
+    runtime: IAgentRuntime,
+    client: BotClient,
+    service: OpenChatClientService,
+): Permissions | undefined {
+    if (client.grantedPermissions) {
+        return client.grantedPermissions;
+    }
+    const chatId = client.chatId;
+    const installation = chatId ? service.getInstallationByChatId(chatId) : undefined;
+    runtime.logger?.warn?.(
+        `[OpenChat] /${client.commandName} JWT carries no permission grant; ` +
+            (installation ? "using the installation's stored grant" : "no installation grant either"),
+    );
+    return installation?.record.grantedCommandPermissions;
+}
+
+/**
+ * Required permissions that are not granted, as "Category: Permission" labels
+ */
+export function findMissingPermissions(required: OpenChatPermissionSet, granted: Permissions): string[] {
+    const missing: string[] = [];
+    const collect = <P>(category: string, permissions: P[] | undefined, isGranted: (permission: P) => boolean) => {
+        for (const permission of permissions ?? []) {
+            if (!isGranted(permission)) {
+                missing.push(`${category}: ${permission}`);
+            }
+        }
+    };
+    collect("chat", required.chat, (permission) => granted.hasChatPermission(permission));
+    collect("community", required.community, (permission) => granted.hasCommunityPermission(permission));
+    collect("message", required.message, (permission) => granted.hasMessagePermission(permission));
+    return missing;
+}
+
+/**
+ * Express middleware that stops a command before dispatch when the bot lacks the
+ * permissions the command declares
+ * The explanation is returned as an ephemeral message in the HTTP response, since the
+ * bot may not be allowed to send messages itself.
+ */
+export function requireCommandPermissions(runtime: IAgentRuntime, service: OpenChatClientService) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const client = (req as WithBotClient).botClient;
+        const registry = service.getCommandRegistry();
+        const command = client ? registry.get(client.commandName) : undefined;
+        if (!command) {
+            next();
+            return;
+        }
+
+        const granted = resolveGrantedCommandPermissions(runtime, client, service);
+        const missing = granted
+            ? findMissingPermissions(registry.getRequiredPermissions(command), granted)
+            : undefined;
+        if (missing?.length === 0) {
+            next();
+            return;
+        }
+
+        runtime.logger?.warn?.(
+            missing
+                ? `[OpenChat] Refusing /${command.name}: missing permissions ${missing.join(", ")}`
+                : `[OpenChat] Refusing /${command.name}: granted permissions could not be read`,
+        );
+        try {
+            const reason = missing
+                ? `the bot hasn't been granted: ${missing.join(", ")}. Ask a chat owner to update the bot's permissions.`
+                : "the bot's permissions in this chat could not be checked.";
+            await respondEphemeral(res, client, `⚠️ /${command.name} can't run here because ${reason}`);
+        } catch (error: any) {
+            runtime.logger?.error?.(
+                "[OpenChat] Failed to explain missing command permissions",
+                error?.message || error,
+            );
+            if (!res.headersSent) {
+                res.status(403).send("Missing permissions");
+            }
+        }
+    };
+}
@@ -0,0 +1,53 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { NextFunction, Request, Response } from "express";
+import { WithBotClient } from "../../types/index.js";
+import type { OpenChatClientService } from "../../services/openchatClient.js";
+import type { OpenChatRateLimitReason } from "../../services/openchatCommandRateLimiter.js";
+import { respondEphemeral } from "../commands/commandMessage.js";
+
+const THROTTLE_MESSAGES: Record<OpenChatRateLimitReason, string> = {
+    cooldown: "You're going a little fast",
+    user: "You've used this command a lot recently",
+    chat: "This chat is using this command a lot right now",
+    global: "I'm handling a lot of requests right now",
+};
+
+/**
+ * Express middleware applying per-user, per-chat and per-command rate limits before dispatch
+ * Principals in OPENCHAT_ADMIN_PRINCIPALS are never throttled.
+ */
+export function requireCommandRateLimit(runtime: IAgentRuntime, service: OpenChatClientService) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const client = (req as WithBotClient).botClient;
+        const command = client ? service.getCommandRegistry().get(client.commandName) : undefined;
+        const initiator = client?.initiator;
+        if (!command || !initiator || service.getCommandAccess().isAdminPrincipal(initiator)) {
+            next();
+            return;
+        }
+
+        const { locationKey } = service.resolveCommandLocation(client);
+        const decision = service.getCommandRateLimiter().consume(command.name, locationKey, initiator);
+        if (decision.allowed) {
+            next();
+            return;
+        }
+
+        const seconds = Math.max(1, Math.ceil((decision.retryAfterMs ?? 0) / 1000));
+        runtime.logger?.info?.(
+            `[OpenChat] Throttled /${command.name} for ${initiator} in ${locationKey} (${decision.reason}, retry in ${seconds}s)`,
+        );
+        try {
+            await respondEphemeral(
+                res,
+                client,
+                `⏳ ${THROTTLE_MESSAGES[decision.reason ?? "user"]}. Please try /${command.name} again in ${seconds}s.`,
+            );
+        } catch (error: any) {
+            runtime.logger?.error?.("[OpenChat] Failed to send rate limit reply", error?.message || error);
+            if (!res.headersSent) {
+                res.status(429).send("Too many requests");
+            }
+        }
+    };
+}
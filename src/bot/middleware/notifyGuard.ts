@@ -0,0 +1,133 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { NextFunction, Request, Response } from "express";
+import { LruCache } from "../../utils/lruCache.js";
+
+const DEFAULT_MAX_AGE_MS = 1000 * 60 * 5; // 5 minutes
+const DEFAULT_MAX_BODY_BYTES = 1024 * 1024; // 1 MB
+const MAX_CLOCK_SKEW_MS = 1000 * 60;
+const SIGNATURE_CACHE_SIZE = 10_000;
+
+export type NotifyRejectionCode =
+    | "missing_signature"
+    | "invalid_signature"
+    | "stale"
+    | "duplicate"
+    | "payload_too_large";
+
+/**
+ * Why a /notify request was refused, sent back as `{ error, code }`
+ */
+export interface NotifyRejection {
+    status: 400 | 401 | 409 | 413;
+    code: NotifyRejectionCode;
+    message: string;
+}
+
+export function sendNotifyRejection(res: Response, rejection: NotifyRejection): void {
+    res.status(rejection.status).json({ error: rejection.message, code: rejection.code });
+}
+
+function readNonNegativeInt(runtime: IAgentRuntime, key: string): number | undefined {
+    const configured = parseInt((runtime.getSetting(key) as string) || "", 10);
+    return Number.isFinite(configured) && configured >= 0 ? configured : undefined;
+}
+
+/**
+ * Freshness and replay checks for signed /notify deliveries
+ * Signatures are remembered for the replay window so a captured payload cannot be
+ * re-submitted; older payloads are already rejected as stale. The replay window therefore
+ * never ends before the age check would take over, and the age check stays on while
+ * replay protection is enabled (OPENCHAT_NOTIFY_REPLAY_WINDOW_MS=0 turns it off).
+ */
+export class OpenChatNotifyGuard {
+    /** Maximum notification age in ms (0 disables the check) */
+    public readonly maxAgeMs: number;
+    public readonly maxBodyBytes: number;
+    private readonly replayWindowMs: number;
+    private readonly signatures = new LruCache<string, number>(SIGNATURE_CACHE_SIZE);
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        const configuredWindow = readNonNegativeInt(runtime, "OPENCHAT_NOTIFY_REPLAY_WINDOW_MS");
+        const replayProtection = configuredWindow !== 0;
+        let maxAgeMs = readNonNegativeInt(runtime, "OPENCHAT_NOTIFY_MAX_AGE_MS") ?? DEFAULT_MAX_AGE_MS;
+        if (maxAgeMs === 0 && replayProtection) {
+            runtime.logger?.warn?.(
+                "[OpenChat] OPENCHAT_NOTIFY_MAX_AGE_MS=0 is ignored while replay protection is on; " +
+                    "set OPENCHAT_NOTIFY_REPLAY_WINDOW_MS=0 as well to disable both",
+            );
+            maxAgeMs = DEFAULT_MAX_AGE_MS;
+        }
+        this.maxAgeMs = maxAgeMs;
+
+        // A payload stays fresh for the max age plus the allowed clock skew
+        const minimumWindow = maxAgeMs + MAX_CLOCK_SKEW_MS;
+        if (configuredWindow !== undefined && replayProtection && configuredWindow < minimumWindow) {
+            runtime.logger?.warn?.(
+                `[OpenChat] OPENCHAT_NOTIFY_REPLAY_WINDOW_MS raised to ${minimumWindow} to cover the notification max age`,
+            );
+        }
+        this.replayWindowMs = replayProtection ? Math.max(configuredWindow ?? 0, minimumWindow) : 0;
+        this.maxBodyBytes = readNonNegativeInt(runtime, "OPENCHAT_NOTIFY_MAX_BODY_BYTES") || DEFAULT_MAX_BODY_BYTES;
+    }
+
+    /**
+     * Record a verified signature, rejecting it when already seen within the replay window
+     */
+    public checkSignature(signature: string): NotifyRejection | undefined {
+        const seenAt = this.signatures.get(signature);
+        const now = Date.now();
+        if (seenAt !== undefined && now - seenAt < this.replayWindowMs) {
+            return { status: 409, code: "duplicate", message: "Notification has already been received" };
+        }
+        this.signatures.set(signature, now);
+        return undefined;
+    }
+
+    /**
+     * Forget a signature whose notification failed to process, so it does not block a retry
+     */
+    public forgetSignature(signature: string): void {
+        this.signatures.delete(signature);
+    }
+
+    /**
+     * Reject notifications older than the maximum age (or implausibly far in the future)
+     * @param timestamp - Notification timestamp in milliseconds (nanoseconds are converted)
+     */
+    public checkFreshness(timestamp: bigint | number): NotifyRejection | undefined {
+        if (this.maxAgeMs === 0) {
+            return undefined;
+        }
+        const value = Number(timestamp);
+        const millis = value > 1e14 ? Math.floor(value / 1_000_000) : value;
+        const age = Date.now() - millis;
+        if (age > this.maxAgeMs || age < -MAX_CLOCK_SKEW_MS) {
+            return {
+                status: 400,
+                code: "stale",
+                message: `Notification timestamp is outside the accepted window (${Math.round(age / 1000)}s old)`,
+            };
+        }
+        return undefined;
+    }
+
+    /**
+     * Express error handler turning body parser size errors into structured 413 responses
+     */
+    public bodyErrorHandler() {
+        return (err: any, _req: Request, res: Response, next: NextFunction): void => {
+            if (err?.type !== "entity.too.large") {
+                next(err);
+                return;
+            }
+            this.runtime.logger?.warn?.(`[OpenChat] Rejected /notify body over ${this.maxBodyBytes} bytes`);
+            sendNotifyRejection(res, {
+                status: 413,
+                code: "payload_too_large",
+                message: `Notification body exceeds ${this.maxBodyBytes} bytes`,
+            });
+        };
+    }
+}
+
+export default OpenChatNotifyGuard;
@@ -64,6 +64,7 @@ export const openchatPlugin: Plugin = {
 // Export types for external use
 export * from "./types/index.js";
 export { OpenChatClientService } from "./services/openchatClient.js";
+export { OpenChatCommandRegistry } from "./bot/commands/registry.js";
 export { actions } from "./actions/index.js";
 export { providers } from "./providers/index.js";
 
@@ -1,8 +1,12 @@
 export { chatContextProvider } from "./chatContext.js";
+export { sharedDocumentsProvider } from "./sharedDocuments.js";
+export { threadContextProvider } from "./threadContext.js";
 
 // Export all providers as array for plugin registration
 import { chatContextProvider } from "./chatContext.js";
+import { sharedDocumentsProvider } from "./sharedDocuments.js";
+import { threadContextProvider } from "./threadContext.js";
 
-export const providers = [chatContextProvider];
+export const providers = [chatContextProvider, sharedDocumentsProvider, threadContextProvider];
 
 export default providers;
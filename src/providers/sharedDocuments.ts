@@ -0,0 +1,48 @@
+import {
+    Provider,
+    IAgentRuntime,
+    Memory,
+} from "@elizaos/core";
+import { OpenChatClientService } from "../services/openchatClient.js";
+import { OpenChatMessageMetadata } from "../types/index.js";
+
+/**
+ * Provider surfacing passages from documents shared in the current OpenChat chat
+ */
+export const sharedDocumentsProvider: Provider = {
+    name: "openchatSharedDocuments",
+    description: "Relevant passages from files shared in this OpenChat chat",
+
+    get: async (runtime: IAgentRuntime, message: Memory) => {
+        const metadata = (message.metadata as any)?.openchat as OpenChatMessageMetadata | undefined;
+        if (!metadata) {
+            return { text: "" };
+        }
+
+        try {
+            const service = (runtime as any).getService?.(
+                "openchat"
+            ) as OpenChatClientService | undefined;
+            const ingest = service?.getMessageManager().getKnowledgeIngest();
+            if (!ingest?.isEnabled()) {
+                return { text: "" };
+            }
+
+            const passages = await ingest.search(metadata, message.content.text ?? "");
+            if (passages.length === 0) {
+                return { text: "" };
+            }
+
+            const lines = passages.map(({ document, text }) => `[${document}] ${text.trim()}`);
+            return {
+                text: ["Shared documents:", ...lines].join("\n"),
+                values: { openchatSharedDocuments: lines.join("\n") },
+            };
+        } catch (error: any) {
+            runtime.logger?.error("[OpenChat] Error searching shared documents:", error?.message || error);
+            return { text: "" };
+        }
+    },
+};
+
+export default sharedDocumentsProvider;
@@ -0,0 +1,39 @@
+import {
+    Provider,
+    IAgentRuntime,
+    Memory,
+} from "@elizaos/core";
+import { OpenChatClientService } from "../services/openchatClient.js";
+import { OpenChatMessageMetadata } from "../types/index.js";
+
+/**
+ * Provider for the root message and earlier replies of the current OpenChat thread
+ */
+export const threadContextProvider: Provider = {
+    name: "openchatThreadContext",
+    description: "Root message and recent replies of the OpenChat thread being answered",
+
+    get: async (runtime: IAgentRuntime, message: Memory) => {
+        const metadata = (message.metadata as any)?.openchat as OpenChatMessageMetadata | undefined;
+        if (!metadata || metadata.threadId === undefined) {
+            return { text: "" };
+        }
+
+        const service = (runtime as any).getService?.(
+            "openchat"
+        ) as OpenChatClientService | undefined;
+        const threadContext = service?.getMessageManager().getThreadContext();
+        const snapshot = threadContext?.get(metadata.roomKey);
+        if (!threadContext || !snapshot) {
+            return { text: "" };
+        }
+
+        const text = threadContext.format(snapshot);
+        return {
+            text: text ? `# OpenChat thread\n${text}` : "",
+            values: { openchatThreadContext: text },
+        };
+    },
+};
+
+export default threadContextProvider;
@@ -0,0 +1,347 @@
+import {
+    ChannelType,
+    Content,
+    IAgentRuntime,
+    Memory,
+    MemoryType,
+    UUID,
+} from "@elizaos/core";
+import {
+    BotClient,
+    MessageEvent as OCMessageEvent,
+} from "@open-ic/openchat-botclient-ts";
+import { OpenChatMemoryMetadata, OpenChatMessageMetadata } from "../types/index.js";
+import { makeMessageUuid, makeRoomUuid, makeUserUuid } from "../utils/openchatIds.js";
+import type { OpenChatMentionDetector } from "./openchatMentionDetector.js";
+
+const DEFAULT_BACKFILL_DEPTH = 200;
+const PAGE_SIZE = 50;
+const PENDING_KEY = "openchat:backfill:pending";
+
+/**
+ * Backfill progress for one room, persisted so interrupted runs resume
+ */
+export interface OpenChatBackfillProgress {
+    metadata: OpenChatMessageMetadata;
+    /** Next (older) event index to fetch; -1 once the start of the chat was reached */
+    cursor: number;
+    stored: number;
+    depth: number;
+    complete: boolean;
+    updatedAt: number;
+}
+
+/**
+ * Convert an OpenChat timestamp (milliseconds, or nanoseconds on some endpoints) to milliseconds
+ */
+function toMillis(timestamp: bigint | number | undefined): number {
+    if (timestamp === undefined) {
+        return Date.now();
+    }
+    const value = Number(timestamp);
+    return value > 1e14 ? Math.floor(value / 1_000_000) : value;
+}
+
+/**
+ * Pages older chat events into memories when the bot is installed or first sees a room
+ * Memories use the same deterministic ids as live messages, so live events deduplicate
+ * against them. Rooms are processed one at a time in the background.
+ */
+export class OpenChatBackfill {
+    private readonly enabled: boolean;
+    private readonly depth: number;
+    private readonly active = new Set<string>();
+    private readonly seenRooms = new Set<string>();
+    private queue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly describeContent: (event: OCMessageEvent) => string,
+        private readonly mentionDetector: OpenChatMentionDetector,
+        private readonly canReadMessages: (locationKey: string) => boolean = () => true,
+    ) {
+        this.enabled = runtime.getSetting("OPENCHAT_BACKFILL") === "true";
+        const configured = parseInt((runtime.getSetting("OPENCHAT_BACKFILL_DEPTH") as string) || "", 10);
+        this.depth = Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_BACKFILL_DEPTH;
+    }
+
+    /**
+     * Backfill a room the first time it is seen in this process, unless already complete
+     * @param beforeEventIndex - Index of the live event that triggered the backfill (exclusive)
+     */
+    public schedule(client: BotClient, metadata: OpenChatMessageMetadata, beforeEventIndex?: number): void {
+        if (!this.enabled || this.depth === 0 || this.seenRooms.has(metadata.roomKey)) {
+            return;
+        }
+        this.seenRooms.add(metadata.roomKey);
+        if (!this.isReadable(metadata)) {
+            return;
+        }
+        this.enqueue(client, metadata, beforeEventIndex);
+    }
+
+    /**
+     * Rooms whose backfill was interrupted, so the caller can resume them at startup
+     */
+    public async getPending(): Promise<OpenChatBackfillProgress[]> {
+        const roomKeys = (await this.runtime.getCache<string[]>(PENDING_KEY)) ?? [];
+        const pending: OpenChatBackfillProgress[] = [];
+        for (const roomKey of roomKeys) {
+            const progress = await this.readProgress(roomKey);
+            if (progress && !progress.complete) {
+                pending.push(progress);
+            }
+        }
+        return pending;
+    }
+
+    public resume(client: BotClient, progress: OpenChatBackfillProgress): void {
+        if (!this.enabled) {
+            return;
+        }
+        this.seenRooms.add(progress.metadata.roomKey);
+        if (!this.isReadable(progress.metadata)) {
+            return;
+        }
+        this.enqueue(client, progress.metadata);
+    }
+
+    /**
+     * Whether the installation lets the bot read the room's history
+     */
+    private isReadable(metadata: OpenChatMessageMetadata): boolean {
+        if (this.canReadMessages(metadata.locationKey)) {
+            return true;
+        }
+        this.runtime.logger?.debug?.(
+            `[OpenChat] Skipping backfill for ${metadata.roomKey}: ReadMessages not granted`,
+        );
+        return false;
+    }
+
+    private enqueue(client: BotClient, metadata: OpenChatMessageMetadata, beforeEventIndex?: number): void {
+        this.queue = this.queue
+            .then(() => this.run(client, metadata, beforeEventIndex))
+            .catch((error: any) => {
+                this.runtime.logger?.warn?.(
+                    `[OpenChat] Backfill failed for ${metadata.roomKey}`,
+                    error?.message || error,
+                );
+            });
+    }
+
+    private async run(
+        client: BotClient,
+        metadata: OpenChatMessageMetadata,
+        beforeEventIndex?: number,
+    ): Promise<void> {
+        const roomKey = metadata.roomKey;
+        if (this.active.has(roomKey)) {
+            return;
+        }
+        this.active.add(roomKey);
+        try {
+            let progress = await this.readProgress(roomKey);
+            if (progress?.complete) {
+                return;
+            }
+            if (!progress) {
+                const cursor = await this.resolveStartIndex(client, metadata, beforeEventIndex);
+                if (cursor === undefined) {
+                    return;
+                }
+                progress = {
+                    metadata: { ...metadata, messageId: "", replyToMessageId: undefined },
+                    cursor,
+                    stored: 0,
+                    depth: this.depth,
+                    complete: false,
+                    updatedAt: Date.now(),
+                };
+                await this.writeProgress(roomKey, progress);
+                await this.markPending(roomKey, true);
+            }
+
+            this.runtime.logger?.info?.(
+                `[OpenChat] Backfilling ${roomKey} (${progress.stored}/${progress.depth} messages)`,
+            );
+
+            const senders = new Set<string>();
+            while (!progress.complete) {
+                if (progress.cursor < 0 || progress.stored >= progress.depth) {
+                    progress.complete = true;
+                    break;
+                }
+
+                const response = await client.chatEvents(
+                    {
+                        kind: "chat_events_page",
+                        startEventIndex: progress.cursor,
+                        ascending: false,
+                        maxEvents: PAGE_SIZE,
+                        maxMessages: Math.min(PAGE_SIZE, progress.depth - progress.stored),
+                    },
+                    metadata.threadId,
+                );
+                if (response.kind !== "success") {
+                    throw new Error(response.message ?? response.code?.toString() ?? "chatEvents failed");
+                }
+                if (response.events.length === 0) {
+                    progress.complete = true;
+                    break;
+                }
+
+                let lowestIndex = progress.cursor;
+                for (const wrapper of response.events) {
+                    lowestIndex = Math.min(lowestIndex, wrapper.index);
+                    if (wrapper.event.kind !== "message" || progress.stored >= progress.depth) {
+                        continue;
+                    }
+                    const stored = await this.storeMessage(
+                        progress.metadata,
+                        wrapper.event as OCMessageEvent,
+                        toMillis(wrapper.timestamp),
+                        senders,
+                    );
+                    if (stored) {
+                        progress.stored++;
+                    }
+                }
+                progress.cursor = lowestIndex - 1;
+                progress.updatedAt = Date.now();
+                await this.writeProgress(roomKey, progress);
+                this.runtime.logger?.debug?.(
+                    `[OpenChat] Backfill ${roomKey}: ${progress.stored}/${progress.depth} messages`,
+                );
+            }
+
+            await this.writeProgress(roomKey, progress);
+            await this.markPending(roomKey, false);
+            this.runtime.logger?.info?.(
+                `[OpenChat] Backfill complete for ${roomKey} (${progress.stored} messages)`,
+            );
+        } finally {
+            this.active.delete(roomKey);
+        }
+    }
+
+    private async resolveStartIndex(
+        client: BotClient,
+        metadata: OpenChatMessageMetadata,
+        beforeEventIndex?: number,
+    ): Promise<number | undefined> {
+        if (beforeEventIndex !== undefined) {
+            return beforeEventIndex - 1;
+        }
+        if (metadata.threadId !== undefined) {
+            // Thread history is backfilled when the first thread message arrives
+            return undefined;
+        }
+        const summary = await client.chatSummary();
+        if (summary.kind === "error" || summary.latestEventIndex === undefined) {
+            return undefined;
+        }
+        return summary.latestEventIndex;
+    }
+
+    private async storeMessage(
+        baseMetadata: OpenChatMessageMetadata,
+        event: OCMessageEvent,
+        createdAt: number,
+        senders: Set<string>,
+    ): Promise<boolean> {
+        if (event.deleted) {
+            return false;
+        }
+        const text = this.describeContent(event);
+        if (!text) {
+            return false;
+        }
+
+        const metadata: OpenChatMessageMetadata = {
+            ...baseMetadata,
+            messageId: event.messageId.toString(),
+        };
+        const id = makeMessageUuid(`${metadata.chatId}-${metadata.messageId}`);
+        if (await this.runtime.getMemoryById(id)) {
+            return false;
+        }
+
+        const channelType = metadata.chatKind === "direct" ? ChannelType.DM : ChannelType.GROUP;
+        const roomId = makeRoomUuid(metadata.chatKind, metadata.roomKey) as UUID;
+        const fromAgent = this.mentionDetector.isBotUser(event.sender);
+        const entityId = fromAgent ? (this.runtime.agentId as UUID) : makeUserUuid(event.sender);
+
+        if (!fromAgent && !senders.has(event.sender)) {
+            senders.add(event.sender);
+            try {
+                await this.runtime.ensureConnection?.({
+                    entityId,
+                    roomId,
+                    userName: event.sender,
+                    name: event.sender,
+                    source: "openchat",
+                    worldId: roomId,
+                    type: channelType,
+                    channelId: metadata.chatId,
+                });
+            } catch (connectionError: any) {
+                this.runtime.logger?.debug?.(
+                    "[OpenChat] ensureConnection failed during backfill",
+                    connectionError?.message || connectionError,
+                );
+            }
+        }
+
+        const memoryMetadata: OpenChatMemoryMetadata = {
+            type: MemoryType.MESSAGE,
+            source: "openchat",
+            scope: "room",
+            openchat: {
+                ...metadata,
+                sender: event.sender,
+                backfilled: true,
+            },
+        };
+        const memory: Memory = {
+            id,
+            entityId,
+            agentId: this.runtime.agentId,
+            roomId,
+            content: {
+                text,
+                source: "openchat",
+                channelType,
+            } as Content,
+            metadata: memoryMetadata,
+            embedding: [],
+            createdAt,
+        };
+        await this.runtime.createMemory(memory, "messages");
+        return true;
+    }
+
+    private progressKey(roomKey: string): string {
+        return `openchat:backfill:${roomKey}`;
+    }
+
+    private async readProgress(roomKey: string): Promise<OpenChatBackfillProgress | undefined> {
+        return this.runtime.getCache<OpenChatBackfillProgress>(this.progressKey(roomKey));
+    }
+
+    private async writeProgress(roomKey: string, progress: OpenChatBackfillProgress): Promise<void> {
+        await this.runtime.setCache(this.progressKey(roomKey), progress);
+    }
+
+    private async markPending(roomKey: string, pending: boolean): Promise<void> {
+        const roomKeys = new Set((await this.runtime.getCache<string[]>(PENDING_KEY)) ?? []);
+        if (pending) {
+            roomKeys.add(roomKey);
+        } else {
+            roomKeys.delete(roomKey);
+        }
+        await this.runtime.setCache(PENDING_KEY, [...roomKeys]);
+    }
+}
+
+export default OpenChatBackfill;
@@ -0,0 +1,141 @@
+import { IAgentRuntime } from "@elizaos/core";
+
+const DEFAULT_WINDOW_MS = 1500;
+const DEFAULT_MAX_WAIT_MS = 6000;
+const DEFAULT_MAX_MESSAGES = 10;
+
+/**
+ * Debounce settings for one installation; a windowMs of 0 turns coalescing off
+ */
+export interface OpenChatBurstConfig {
+    /** Quiet time after the latest message before the burst is handed to the agent */
+    windowMs: number;
+    /** Longest a burst may be held, measured from its first message */
+    maxWaitMs: number;
+    /** Messages after which the burst is handed over without waiting */
+    maxMessages: number;
+}
+
+interface PendingBurst<T> {
+    items: T[];
+    startedAt: number;
+    config: OpenChatBurstConfig;
+    timer?: ReturnType<typeof setTimeout>;
+    resolve: (items: T[]) => void;
+}
+
+function parseConfig(raw: unknown): Partial<OpenChatBurstConfig> {
+    if (!raw || typeof raw !== "object") {
+        return {};
+    }
+    const config: Partial<OpenChatBurstConfig> = {};
+    for (const key of ["windowMs", "maxWaitMs", "maxMessages"] as const) {
+        const rawValue = (raw as Record<string, unknown>)[key];
+        const value = typeof rawValue === "number" ? rawValue : parseInt(String(rawValue ?? ""), 10);
+        if (Number.isFinite(value) && value >= 0) {
+            config[key] = value;
+        }
+    }
+    return config;
+}
+
+/**
+ * Groups consecutive messages from one sender in one room into a single batch
+ * The first message of a burst waits until the sender has been quiet for the window and
+ * then receives every message collected so far; later messages in the burst resolve to
+ * undefined because their content travels with the first. Callers should not hold a
+ * request open on the first message's promise. Defaults come from
+ * OPENCHAT_BURST_* settings, with overrides keyed by installation `locationKey`.
+ */
+export class OpenChatBurstCoalescer<T> {
+    private readonly defaults: OpenChatBurstConfig;
+    private readonly overrides: Record<string, Partial<OpenChatBurstConfig>> = {};
+    private readonly pending = new Map<string, PendingBurst<T>>();
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.defaults = {
+            windowMs: DEFAULT_WINDOW_MS,
+            maxWaitMs: DEFAULT_MAX_WAIT_MS,
+            maxMessages: DEFAULT_MAX_MESSAGES,
+            ...parseConfig({
+                windowMs: runtime.getSetting("OPENCHAT_BURST_WINDOW_MS"),
+                maxWaitMs: runtime.getSetting("OPENCHAT_BURST_MAX_WAIT_MS"),
+                maxMessages: runtime.getSetting("OPENCHAT_BURST_MAX_MESSAGES"),
+            }),
+        };
+
+        const raw = runtime.getSetting("OPENCHAT_BURST_OVERRIDES");
+        if (typeof raw === "string" && raw.trim()) {
+            try {
+                for (const [locationKey, override] of Object.entries(JSON.parse(raw))) {
+                    this.overrides[locationKey] = parseConfig(override);
+                }
+            } catch {
+                runtime.logger?.warn?.("[OpenChat] Ignoring invalid OPENCHAT_BURST_OVERRIDES JSON");
+            }
+        }
+    }
+
+    public getConfig(locationKey: string): OpenChatBurstConfig {
+        return { ...this.defaults, ...this.overrides[locationKey] };
+    }
+
+    /**
+     * Whether messages in an installation are held back to form bursts at all
+     */
+    public isEnabled(locationKey: string): boolean {
+        const config = this.getConfig(locationKey);
+        return config.windowMs > 0 && config.maxMessages > 1;
+    }
+
+    /**
+     * Add a message to its sender's burst
+     * @returns Every message in the burst for the first caller once it closes, otherwise undefined
+     */
+    public collect(key: string, locationKey: string, item: T): Promise<T[] | undefined> {
+        const existing = this.pending.get(key);
+        if (existing) {
+            existing.items.push(item);
+            if (existing.items.length >= existing.config.maxMessages) {
+                this.flush(key);
+            } else {
+                this.arm(key, existing);
+            }
+            return Promise.resolve(undefined);
+        }
+
+        if (!this.isEnabled(locationKey)) {
+            return Promise.resolve([item]);
+        }
+        const config = this.getConfig(locationKey);
+        return new Promise((resolve) => {
+            const burst: PendingBurst<T> = { items: [item], startedAt: Date.now(), config, resolve };
+            this.pending.set(key, burst);
+            this.arm(key, burst);
+        });
+    }
+
+    /**
+     * Close a sender's burst straight away, e.g. before handling a command they sent
+     */
+    public flush(key: string): void {
+        const burst = this.pending.get(key);
+        if (!burst) {
+            return;
+        }
+        this.pending.delete(key);
+        clearTimeout(burst.timer);
+        if (burst.items.length > 1) {
+            this.runtime.logger?.debug?.(`[OpenChat] Coalesced ${burst.items.length} messages in ${key}`);
+        }
+        burst.resolve(burst.items);
+    }
+
+    private arm(key: string, burst: PendingBurst<T>): void {
+        clearTimeout(burst.timer);
+        const remaining = burst.config.maxWaitMs - (Date.now() - burst.startedAt);
+        burst.timer = setTimeout(() => this.flush(key), Math.max(0, Math.min(burst.config.windowMs, remaining)));
+    }
+}
+
+export default OpenChatBurstCoalescer;
@@ -19,18 +19,40 @@ import express, { Express, Request, Response } from "express";
 import cors from "cors";
 import {
     OpenChatBotConfig,
+    OpenChatCommandDefinition,
     OpenChatInstallation,
     OpenChatMessageMetadata,
 } from "../types/index.js";
 import { createCommandChatClient } from "../bot/middleware/botclient.js";
+import { OpenChatNotifyGuard } from "../bot/middleware/notifyGuard.js";
+import { requireCommandPermissions } from "../bot/middleware/commandPermissions.js";
+import { requireCommandAccess } from "../bot/middleware/commandAccess.js";
+import { requireCommandRateLimit } from "../bot/middleware/commandRateLimit.js";
 import { executeCommand } from "../bot/handlers/executeCommand.js";
 import { notifyHandler } from "../bot/handlers/notify.js";
 import { schemaHandler } from "../bot/handlers/schema.js";
+import { OpenChatCommandRegistry } from "../bot/commands/registry.js";
+import { createBuiltinCommands } from "../bot/commands/builtin.js";
+import { createActionCommands } from "../bot/commands/actionCommands.js";
+import { createDocumentCommands } from "../bot/commands/documentCommands.js";
+import { createAccessCommands } from "../bot/commands/accessCommands.js";
 import { OpenChatMessageManager } from "./openchatMessageManager.js";
+import { OpenChatOutboundQueue } from "./openchatOutboundQueue.js";
+import { OpenChatEventDeduplicator } from "./openchatEventDeduplicator.js";
+import { OpenChatCommandAccess } from "./openchatCommandAccess.js";
+import { OpenChatCommandRateLimiter } from "./openchatCommandRateLimiter.js";
+import { OpenChatCommandJobs } from "./openchatCommandJobs.js";
+import { OpenChatMembership } from "./openchatMembership.js";
 import {
     OpenChatUserDirectory,
     type OpenChatUserProfile,
 } from "./openchatUserDirectory.js";
+import {
+    createInstallationStore,
+    deserializeInstallation,
+    serializeInstallation,
+    type OpenChatInstallationStore,
+} from "./openchatInstallationStore.js";
 
 export const REQUIRED_OPENCHAT_ENV_VARS = [
     "OPENCHAT_BOT_IDENTITY_PRIVATE_KEY",
@@ -52,14 +74,39 @@ export class OpenChatClientService extends Service {
     public override config: OpenChatBotConfig = {} as OpenChatBotConfig;
     private installations: Map<string, OpenChatInstallation> = new Map();
     private messageManager: OpenChatMessageManager;
+    private readonly outboundQueue: OpenChatOutboundQueue;
+    private readonly eventDeduplicator: OpenChatEventDeduplicator;
+    private readonly commandAccess: OpenChatCommandAccess;
+    private readonly commandRateLimiter: OpenChatCommandRateLimiter;
+    private readonly commandJobs: OpenChatCommandJobs;
+    private readonly membership: OpenChatMembership;
     private userDirectory!: OpenChatUserDirectory;
+    private installationStore: OpenChatInstallationStore;
+    private installationWatermark?: bigint;
+    /** Watermark updates, in the order the installation changes were written */
+    private installationWrites: Promise<void> = Promise.resolve();
+    /** Timestamp of the oldest installation change that could not be stored */
+    private failedInstallationWrite?: bigint;
+    private readonly commandRegistry = new OpenChatCommandRegistry();
 
     constructor(runtime?: IAgentRuntime) {
         super(runtime);
         if (!runtime) {
             throw new Error("OpenChatClientService requires an agent runtime");
         }
-        this.messageManager = new OpenChatMessageManager(runtime);
+        this.outboundQueue = new OpenChatOutboundQueue(runtime);
+        this.eventDeduplicator = new OpenChatEventDeduplicator(runtime);
+        this.commandAccess = new OpenChatCommandAccess(runtime);
+        this.commandRateLimiter = new OpenChatCommandRateLimiter(runtime);
+        this.commandJobs = new OpenChatCommandJobs(runtime);
+        this.membership = new OpenChatMembership(runtime, this.commandAccess);
+        this.messageManager = new OpenChatMessageManager(runtime, this.outboundQueue, (locationKey) =>
+            this.canReadMessages(locationKey),
+        );
+        this.installationStore = createInstallationStore(runtime);
+        for (const command of [...createBuiltinCommands(runtime), ...createAccessCommands(runtime)]) {
+            this.commandRegistry.register(command);
+        }
     }
 
     private initialize(config: OpenChatBotConfig): void {
@@ -72,6 +119,9 @@ export class OpenChatClientService extends Service {
             openStorageCanisterId: config.openStorageCanisterId,
         });
 
+        this.registerConfiguredCommands();
+        this.registerActionCommands();
+        this.registerDocumentCommands();
         this.app = express();
         this.setupRoutes();
         this.userDirectory = new OpenChatUserDirectory({
@@ -80,6 +130,8 @@ export class OpenChatClientService extends Service {
             storageIndexCanisterId: config.openStorageCanisterId,
             logger: this.runtime.logger,
         });
+        // Resolved in the background; mentions by principal work in the meantime
+        void this.messageManager.getMentionDetector().resolveUsername(this.userDirectory);
 
         this.runtime.logger.info("OpenChat Client Service initialized");
     }
@@ -90,8 +142,10 @@ export class OpenChatClientService extends Service {
         service.initialize(config);
         await service.startServer();
         
-        // Load historic installation events after server is ready
-        await service.loadInstallations();
+        // Restore persisted installations, then catch up on newer events
+        await service.restoreInstallations();
+        await service.syncInstallations();
+        await service.resumeBackfills();
         
         service.logReadyBanner();
         return service;
@@ -137,29 +191,91 @@ export class OpenChatClientService extends Service {
             "/execute_command",
             express.text(),
             createCommandChatClient(this.factory),
-            (req: Request, res: Response) => executeCommand(req, res, this.runtime)
+            requireCommandPermissions(this.runtime, this),
+            requireCommandAccess(this.runtime, this),
+            requireCommandRateLimit(this.runtime, this),
+            (req: Request, res: Response) => executeCommand(req, res, this.runtime, this)
         );
 
         // Notification endpoint for autonomous events
+        const notifyGuard = new OpenChatNotifyGuard(this.runtime);
         this.app.post(
             "/notify",
-            express.raw({ type: "application/msgpack" }),
-            (req: Request, res: Response) => notifyHandler(req, res, this.runtime, this)
+            express.raw({ type: "application/msgpack", limit: notifyGuard.maxBodyBytes }),
+            (req: Request, res: Response) => notifyHandler(req, res, this.runtime, this, notifyGuard),
+            notifyGuard.bodyErrorHandler(),
         );
 
         // Bot definition schema endpoint
         this.app.get("/bot_definition", (req: Request, res: Response) => 
-            schemaHandler(req, res, this.runtime)
+            schemaHandler(req, res, this.runtime, this.commandRegistry)
         );
 
         // Root endpoint (alias for bot_definition)
         this.app.get("/", (req: Request, res: Response) => 
-            schemaHandler(req, res, this.runtime)
+            schemaHandler(req, res, this.runtime, this.commandRegistry)
         );
 
         this.runtime.logger.debug("OpenChat bot routes configured");
     }
 
+    /**
+     * Register custom commands declared in character settings (`settings.openchat.commands`)
+     */
+    private registerConfiguredCommands(): void {
+        const configured = (this.runtime.character?.settings as any)?.openchat?.commands;
+        if (!Array.isArray(configured)) {
+            return;
+        }
+        for (const command of configured as OpenChatCommandDefinition[]) {
+            try {
+                this.registerCommand(command);
+            } catch (error: any) {
+                this.runtime.logger.error(
+                    "[OpenChat] Invalid command in character settings:",
+                    error?.message || error
+                );
+            }
+        }
+    }
+
+    /**
+     * Expose opted-in runtime actions as slash commands
+     */
+    private registerActionCommands(): void {
+        for (const command of createActionCommands(this.runtime)) {
+            if (this.commandRegistry.has(command.name)) {
+                this.runtime.logger.warn(
+                    `[OpenChat] Skipping action command /${command.name}: name already registered`,
+                );
+                continue;
+            }
+            try {
+                this.registerCommand(command);
+            } catch (error: any) {
+                this.runtime.logger.warn(
+                    `[OpenChat] Skipping action command /${command.name}:`,
+                    error?.message || error
+                );
+            }
+        }
+    }
+
+    /**
+     * Register /documents and /forget when shared file ingestion is enabled
+     */
+    private registerDocumentCommands(): void {
+        for (const command of createDocumentCommands(this.runtime)) {
+            if (this.commandRegistry.has(command.name)) {
+                this.runtime.logger.warn(
+                    `[OpenChat] Skipping document command /${command.name}: name already registered`,
+                );
+                continue;
+            }
+            this.commandRegistry.register(command);
+        }
+    }
+
     /**
      * Start the OpenChat bot server
      */
@@ -199,19 +315,53 @@ export class OpenChatClientService extends Service {
     }
 
     /**
-     * Load historic installation events from OpenChat backend
+     * Restore installations from the persistent store
+     * This keeps the bot usable when the backend event log is unavailable
+     */
+    private async restoreInstallations(): Promise<void> {
+        try {
+            const stored = await this.installationStore.load();
+            for (const entry of stored) {
+                const { location, record } = deserializeInstallation(entry);
+                this.installations.set(entry.locationKey, {
+                    location,
+                    scope: this.scopeFromLocation(location),
+                    record,
+                });
+            }
+            this.installationWatermark = await this.installationStore.getWatermark();
+            this.runtime.logger.info(
+                `Restored ${stored.length} installations from ${this.installationStore.kind} store`,
+            );
+        } catch (error: any) {
+            this.runtime.logger.error(
+                "Error restoring persisted installations:",
+                error?.message || error
+            );
+        }
+    }
+
+    /**
+     * Load installation events newer than the persisted watermark from OpenChat backend
      * This allows the bot to recover its installation state on restart
      */
-    private async loadInstallations(): Promise<void> {
+    private async syncInstallations(): Promise<void> {
         try {
-            this.runtime.logger.info("Loading historic installation events...");
+            const since = this.installationWatermark;
+            this.runtime.logger.info(
+                since !== undefined
+                    ? `Syncing installation events since ${since}...`
+                    : "Loading historic installation events...",
+            );
             
-            const globalClient = this.factory.createGlobalClient();
-            const response = await globalClient.installationEvents();
+            const globalClient: InstallationEventsSince = this.factory.createGlobalClient();
+            // Only events from the watermark on are requested. A botclient that ignores `since`
+            // returns the full log, so events already applied are still filtered below.
+            const response = await globalClient.installationEvents(since);
             
             if (response.kind !== "success") {
                 this.runtime.logger.warn(
-                    "Failed to load installation events:",
+                    "Failed to load installation events, keeping persisted installations:",
                     response.kind === "error" ? response.message : "Unknown error"
                 );
                 return;
@@ -219,8 +369,20 @@ export class OpenChatClientService extends Service {
             
             let installedCount = 0;
             let uninstalledCount = 0;
+            let skippedCount = 0;
             
             for (const event of response.events) {
+                const eventTimestamp = getInstallationEventTimestamp(event);
+                // Events sharing the watermark timestamp may not all have been applied, so they
+                // are only skipped when the registry already reflects them
+                if (
+                    since !== undefined &&
+                    eventTimestamp !== undefined &&
+                    (eventTimestamp < since || (eventTimestamp === since && this.isInstallationEventApplied(event)))
+                ) {
+                    skippedCount++;
+                    continue;
+                }
                 switch (event.kind) {
                     case "installed":
                         this.recordInstallation(
@@ -235,19 +397,19 @@ export class OpenChatClientService extends Service {
                         installedCount++;
                         break;
                     case "uninstalled":
-                        this.recordUninstallation(event.location);
+                        this.recordUninstallation(event.location, eventTimestamp);
                         uninstalledCount++;
                         break;
                 }
             }
             
             this.runtime.logger.success(
-                `Loaded ${response.events.length} installation events ` +
-                `(${installedCount} installed, ${uninstalledCount} uninstalled)`
+                `Applied ${response.events.length - skippedCount} installation events ` +
+                `(${installedCount} installed, ${uninstalledCount} uninstalled, ${this.installations.size} active)`
             );
         } catch (error: any) {
             this.runtime.logger.error(
-                "Error loading installation events:",
+                "Error syncing installation events, keeping persisted installations:",
                 error?.message || error
             );
         }
@@ -297,15 +459,87 @@ export class OpenChatClientService extends Service {
                 record.grantedAutonomousPermissions?.rawPermissions?.message ?? 0
             })`,
         );
+        this.persistInstallationChange(
+            () => this.installationStore.save(serializeInstallation(key, location, record)),
+            record.installedAt,
+        );
     }
 
     /**
      * Record bot uninstallation
      */
-    public recordUninstallation(location: InstallationLocation): void {
+    public recordUninstallation(location: InstallationLocation, timestamp?: bigint): void {
         const key = this.getLocationKey(location);
         this.installations.delete(key);
         this.runtime.logger.info(`Bot uninstalled from scope: ${key}`);
+        this.persistInstallationChange(() => this.installationStore.remove(key), timestamp);
+    }
+
+    /**
+     * Get the backend used to persist installations
+     */
+    public getInstallationStore(): OpenChatInstallationStore {
+        return this.installationStore;
+    }
+
+    /**
+     * Whether the registry already reflects an installation event
+     */
+    private isInstallationEventApplied(event: InstallationEvent): boolean {
+        const installation = this.installations.get(this.getLocationKey(event.location));
+        if (event.kind === "installed") {
+            return installation?.record.installedAt === event.installedAt;
+        }
+        return installation === undefined;
+    }
+
+    private persistInstallationChange(write: () => Promise<void>, timestamp?: bigint): void {
+        const stored = write().then(
+            () => true,
+            (error: any) => {
+                this.runtime.logger.error(
+                    "[OpenChat] Failed to persist installation change",
+                    error?.message || error,
+                );
+                return false;
+            },
+        );
+        // The watermark follows the writes in order and never passes one that failed, so a
+        // change that could not be stored is fetched and applied again on restart
+        this.installationWrites = this.installationWrites.then(async () => {
+            if (timestamp === undefined) {
+                await stored;
+                return;
+            }
+            let next: bigint;
+            if (await stored) {
+                next =
+                    this.failedInstallationWrite !== undefined && timestamp > this.failedInstallationWrite
+                        ? this.failedInstallationWrite
+                        : timestamp;
+                if (this.installationWatermark !== undefined && next <= this.installationWatermark) {
+                    return;
+                }
+            } else {
+                if (this.failedInstallationWrite === undefined || timestamp < this.failedInstallationWrite) {
+                    this.failedInstallationWrite = timestamp;
+                }
+                // Move a watermark that already passed the failed change back to it
+                next = this.failedInstallationWrite;
+                if (this.installationWatermark === undefined || this.installationWatermark <= next) {
+                    return;
+                }
+            }
+            this.installationWatermark = next;
+            try {
+                await this.installationStore.setWatermark(next);
+            } catch (error: any) {
+                this.runtime.logger.error(
+                    "[OpenChat] Failed to persist installation watermark",
+                    error?.message || error,
+                );
+            }
+        });
     }
 
     /**
@@ -333,6 +567,22 @@ export class OpenChatClientService extends Service {
         return metadata;
     }
 
+    /**
+     * Register (or replace) a slash command
+     * The bot definition must be re-fetched by OpenChat for new commands to appear.
+     */
+    public registerCommand(command: OpenChatCommandDefinition): void {
+        const replaced = this.commandRegistry.has(command.name);
+        this.commandRegistry.register(command);
+        this.runtime.logger.info(
+            `[OpenChat] ${replaced ? "Replaced" : "Registered"} command /${command.name}`,
+        );
+    }
+
+    public getCommandRegistry(): OpenChatCommandRegistry {
+        return this.commandRegistry;
+    }
+
     /**
      * Get factory instance
      */
@@ -351,6 +601,67 @@ export class OpenChatClientService extends Service {
         return this.messageManager;
     }
 
+    /**
+     * Queue used for every outbound message (per-chat ordering, rate limits, retries)
+     */
+    public getOutboundQueue(): OpenChatOutboundQueue {
+        return this.outboundQueue;
+    }
+
+    /**
+     * Tracks processed notifications so retried deliveries are handled once
+     */
+    public getEventDeduplicator(): OpenChatEventDeduplicator {
+        return this.eventDeduplicator;
+    }
+
+    /**
+     * Role and allowlist rules for slash commands
+     */
+    public getCommandAccess(): OpenChatCommandAccess {
+        return this.commandAccess;
+    }
+
+    /**
+     * Rate limits and cooldowns for slash commands, including throttling metrics
+     */
+    public getCommandRateLimiter(): OpenChatCommandRateLimiter {
+        return this.commandRateLimiter;
+    }
+
+    /**
+     * Background queue running long command work (see /cancel)
+     */
+    public getCommandJobs(): OpenChatCommandJobs {
+        return this.commandJobs;
+    }
+
+    /**
+     * Room participant sync and statistics for chat membership changes
+     */
+    public getMembership(): OpenChatMembership {
+        return this.membership;
+    }
+
+    /**
+     * Installation key and chat kind a command was issued in
+     */
+    public resolveCommandLocation(client: BotClient): {
+        locationKey: string;
+        chatKind: OpenChatMessageMetadata["chatKind"];
+    } {
+        const chatId = client.chatId;
+        if (chatId) {
+            const { locationKey, chatKind } = this.buildMessageMetadata(chatId, BigInt(0), "");
+            return { locationKey, chatKind };
+        }
+        const communityId = (client.scope as any)?.communityId;
+        return {
+            locationKey: communityId ? this.getLocationKey(communityId) : "unknown",
+            chatKind: "channel",
+        };
+    }
+
     public async resolveUserProfile(
         userId: string,
         apiGateway?: string,
@@ -366,6 +677,57 @@ export class OpenChatClientService extends Service {
         return this.installations.get(this.getLocationKey(location));
     }
 
+    /**
+     * Backfill earlier conversation for a newly installed group or direct chat
+     * Community channels are backfilled when their first message arrives.
+     */
+    public scheduleBackfill(location: InstallationLocation): void {
+        if (!(location instanceof GroupChatIdentifier || location instanceof DirectChatIdentifier)) {
+            return;
+        }
+        const installation = this.installations.get(this.getLocationKey(location));
+        const client = this.createClientForLocation(location);
+        if (!installation || !client) {
+            return;
+        }
+        // The backfill itself checks that the installation granted ReadMessages
+        const metadata = this.buildMessageMetadata(location, BigInt(0), installation.record.apiGateway);
+        this.messageManager.getBackfill().schedule(client, metadata);
+    }
+
+    /**
+     * Whether an installation granted the bot ReadMessages
+     */
+    private canReadMessages(locationKey: string): boolean {
+        const permissions = this.installations.get(locationKey)?.record.grantedAutonomousPermissions;
+        return Boolean(permissions?.hasChatPermission("ReadMessages"));
+    }
+
+    /**
+     * Resume backfills interrupted by a restart
+     */
+    private async resumeBackfills(): Promise<void> {
+        try {
+            const backfill = this.messageManager.getBackfill();
+            for (const progress of await backfill.getPending()) {
+                const installation = this.installations.get(progress.metadata.locationKey);
+                if (!installation || installation.location instanceof CommunityIdentifier) {
+                    // Community channels resume when their next message arrives
+                    continue;
+                }
+                const client = this.createClientForLocation(installation.location);
+                if (client) {
+                    backfill.resume(client, progress);
+                }
+            }
+        } catch (error: any) {
+            this.runtime.logger.warn(
+                "[OpenChat] Unable to resume pending backfills:",
+                error?.message || error,
+            );
+        }
+    }
+
     public createClientForLocation(location: InstallationLocation): BotClient | undefined {
         const installation = this.installations.get(this.getLocationKey(location));
         if (!installation) {
@@ -383,6 +745,7 @@ export class OpenChatClientService extends Service {
         messageId: bigint,
         apiGateway: string,
         thread?: number,
+        eventIndex?: number,
     ): OpenChatMessageMetadata {
         const location = chatIdentifierToInstallationLocation(chatId);
         const locationKey = this.getLocationKey(location);
@@ -394,6 +757,7 @@ export class OpenChatClientService extends Service {
             roomKey,
             messageId: messageId.toString(),
             threadId: thread,
+            eventIndex,
             apiGateway,
         };
     }
@@ -474,4 +838,21 @@ export class OpenChatClientService extends Service {
     }
 }
 
+type InstallationEvent = Extract<
+    Awaited<ReturnType<BotClient["installationEvents"]>>,
+    { kind: "success" }
+>["events"][number];
+
+/**
+ * Installation event listing, starting from a timestamp on botclient releases that accept one
+ */
+interface InstallationEventsSince {
+    installationEvents(since?: bigint): ReturnType<BotClient["installationEvents"]>;
+}
+
+function getInstallationEventTimestamp(event: InstallationEvent): bigint | undefined {
+    const value = event.kind === "installed" ? event.installedAt : event.uninstalledAt ?? event.timestamp;
+    return typeof value === "bigint" ? value : undefined;
+}
+
 export default OpenChatClientService;
\ No newline at end of file
@@ -0,0 +1,272 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { BotClient } from "@open-ic/openchat-botclient-ts";
+import {
+    OpenChatCommandAccessRule,
+    OpenChatCommandDefinition,
+    OpenChatCommandRole,
+} from "../types/index.js";
+import { KeyedSerialQueue } from "../utils/keyedSerialQueue.js";
+import { LruCache } from "../utils/lruCache.js";
+
+const ROLE_RANK: Record<string, number> = {
+    participant: 0,
+    moderator: 1,
+    admin: 2,
+    owner: 3,
+};
+
+const ROLE_CACHE_SIZE = 1000;
+const ROLE_CACHE_TTL_MS = 1000 * 60; // 1 minute
+
+export const COMMAND_ROLES = ["Participant", "Moderator", "Admin", "Owner"] as OpenChatCommandRole[];
+
+/**
+ * User ids of a chat's members grouped by role, in lookup order
+ */
+const MEMBER_GROUPS = [
+    ["owners", "owner"],
+    ["admins", "admin"],
+    ["moderators", "moderator"],
+    ["members", "participant"],
+] as const;
+
+type OpenChatMemberGroup = (typeof MEMBER_GROUPS)[number][0];
+
+type OpenChatMembersResponse =
+    | { kind: "success"; members: Partial<Record<OpenChatMemberGroup, string[]>> }
+    | { kind: "error"; code?: number; message?: string };
+
+/**
+ * Member listing that only newer botclient releases provide
+ */
+interface OptionalMembersLookup {
+    members?(): Promise<OpenChatMembersResponse>;
+}
+
+export interface OpenChatCommandAccessDecision {
+    allowed: boolean;
+    reason: string;
+}
+
+/**
+ * Where the command runs and who issued it
+ */
+export interface OpenChatCommandAccessRequest {
+    client: BotClient;
+    command: OpenChatCommandDefinition;
+    locationKey: string;
+    chatKind: "direct" | "group" | "channel";
+    initiator?: string;
+}
+
+function rankOf(role: string | undefined): number | undefined {
+    return role ? ROLE_RANK[role.toLowerCase()] : undefined;
+}
+
+/**
+ * Normalize a role name to the casing used in bot definitions, or undefined when unknown
+ */
+export function parseCommandRole(value: unknown): OpenChatCommandRole | undefined {
+    const rank = typeof value === "string" ? rankOf(value.trim()) : undefined;
+    return rank === undefined ? undefined : COMMAND_ROLES[rank];
+}
+
+function parseRule(value: any): OpenChatCommandAccessRule | undefined {
+    if (!value || typeof value !== "object") {
+        return undefined;
+    }
+    const minRole = parseCommandRole(value.minRole);
+    const allowedPrincipals = Array.isArray(value.allowedPrincipals)
+        ? value.allowedPrincipals.filter((principal: unknown) => typeof principal === "string" && principal)
+        : undefined;
+    return { minRole, allowedPrincipals: allowedPrincipals?.length ? allowedPrincipals : undefined };
+}
+
+/**
+ * Role-based access control for slash commands
+ * A command is allowed when the initiator is listed in OPENCHAT_ADMIN_PRINCIPALS, or is on the
+ * command's principal allowlist, or (when no allowlist is set) holds at least its minimum role.
+ * Rules come from the command definition, then OPENCHAT_COMMAND_ACCESS, then per-installation
+ * overrides stored in the runtime cache by chat owners. When the initiator's role cannot be
+ * looked up, only rules no stricter than the command's OpenChat default role pass.
+ */
+export class OpenChatCommandAccess {
+    private readonly adminPrincipals: Set<string>;
+    private readonly configuredRules: Record<string, OpenChatCommandAccessRule> = {};
+    private readonly roles = new LruCache<string, { role?: string; fetchedAt: number }>(ROLE_CACHE_SIZE);
+    private readonly overrideUpdates = new KeyedSerialQueue();
+    private warnedNoLookup = false;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.adminPrincipals = new Set(
+            ((runtime.getSetting("OPENCHAT_ADMIN_PRINCIPALS") as string) || "")
+                .split(",")
+                .map((principal) => principal.trim())
+                .filter(Boolean),
+        );
+
+        const raw = runtime.getSetting("OPENCHAT_COMMAND_ACCESS");
+        if (typeof raw === "string" && raw.trim()) {
+            try {
+                for (const [name, value] of Object.entries(JSON.parse(raw))) {
+                    const rule = parseRule(value);
+                    if (rule) {
+                        this.configuredRules[name] = rule;
+                    }
+                }
+            } catch {
+                runtime.logger?.warn?.("[OpenChat] Ignoring invalid OPENCHAT_COMMAND_ACCESS JSON");
+            }
+        }
+    }
+
+    public isAdminPrincipal(principal: string | undefined): boolean {
+        return Boolean(principal && this.adminPrincipals.has(principal));
+    }
+
+    /**
+     * Per-installation overrides, keyed by command name
+     */
+    public async getOverrides(locationKey: string): Promise<Record<string, OpenChatCommandAccessRule>> {
+        const overrides = await this.runtime.getCache<Record<string, OpenChatCommandAccessRule>>(
+            this.cacheKey(locationKey),
+        );
+        return overrides ?? {};
+    }
+
+    /**
+     * Set or clear (rule undefined) an installation's override for a command
+     */
+    public async setOverride(
+        locationKey: string,
+        commandName: string,
+        rule: OpenChatCommandAccessRule | undefined,
+    ): Promise<void> {
+        await this.overrideUpdates.run(locationKey, async () => {
+            const overrides = await this.getOverrides(locationKey);
+            if (rule) {
+                overrides[commandName] = rule;
+            } else {
+                delete overrides[commandName];
+            }
+            await this.runtime.setCache(this.cacheKey(locationKey), overrides);
+        });
+    }
+
+    /**
+     * Effective rule for a command in an installation
+     */
+    public async resolveRule(
+        command: OpenChatCommandDefinition,
+        locationKey: string,
+    ): Promise<Required<Pick<OpenChatCommandAccessRule, "minRole">> & OpenChatCommandAccessRule> {
+        const configured = this.configuredRules[command.name];
+        const override = (await this.getOverrides(locationKey))[command.name];
+        return {
+            minRole:
+                override?.minRole ??
+                configured?.minRole ??
+                command.minRole ??
+                command.defaultRole ??
+                ("Participant" as OpenChatCommandRole),
+            allowedPrincipals:
+                override?.allowedPrincipals ?? configured?.allowedPrincipals ?? command.allowedPrincipals,
+        };
+    }
+
+    public async evaluate(request: OpenChatCommandAccessRequest): Promise<OpenChatCommandAccessDecision> {
+        const { command, initiator } = request;
+        if (this.isAdminPrincipal(initiator)) {
+            return { allowed: true, reason: "admin_principal" };
+        }
+
+        const rule = await this.resolveRule(command, request.locationKey);
+        if (rule.allowedPrincipals?.length) {
+            return initiator && rule.allowedPrincipals.includes(initiator)
+                ? { allowed: true, reason: "allowlist" }
+                : { allowed: false, reason: `/${command.name} is limited to specific users in this chat.` };
+        }
+
+        const required = rankOf(rule.minRole) ?? 0;
+        if (required === 0) {
+            return { allowed: true, reason: "participant" };
+        }
+        if (request.chatKind === "direct") {
+            // The other member of a direct chat owns it
+            return { allowed: true, reason: "direct_chat" };
+        }
+
+        const role = initiator
+            ? await this.resolveRole(request.client, request.locationKey, initiator)
+            : undefined;
+        const rank = rankOf(role);
+        if (rank === undefined) {
+            // OpenChat itself only offers the command to its default role and above
+            if (required <= (rankOf(command.defaultRole) ?? 0)) {
+                return { allowed: true, reason: "default_role" };
+            }
+            return {
+                allowed: false,
+                reason: `/${command.name} requires the ${rule.minRole} role, and your role in this chat could not be checked.`,
+            };
+        }
+        return rank >= required
+            ? { allowed: true, reason: `role:${role}` }
+            : { allowed: false, reason: `/${command.name} requires the ${rule.minRole} role or above.` };
+    }
+
+    /**
+     * Drop a member's cached role after it changed or they left the chat
+     */
+    public forgetRole(locationKey: string, userId: string): void {
+        this.roles.delete(`${locationKey}:${userId}`);
+    }
+
+    /**
+     * Look up a member's chat role through the bot client, when the client supports it
+     */
+    private async resolveRole(
+        client: BotClient,
+        locationKey: string,
+        userId: string,
+    ): Promise<string | undefined> {
+        const cacheKey = `${locationKey}:${userId}`;
+        const cached = this.roles.get(cacheKey);
+        if (cached && Date.now() - cached.fetchedAt < ROLE_CACHE_TTL_MS) {
+            return cached.role;
+        }
+
+        const lookup: OptionalMembersLookup = client;
+        if (!lookup.members) {
+            if (!this.warnedNoLookup) {
+                this.warnedNoLookup = true;
+                this.runtime.logger?.warn?.(
+                    "[OpenChat] This botclient cannot list chat members, so command rules stricter than a " +
+                        "command's default role will be refused",
+                );
+            }
+            return undefined;
+        }
+
+        let role: string | undefined;
+        try {
+            const response = await lookup.members.call(client);
+            if (response.kind === "success") {
+                role = MEMBER_GROUPS.find(([group]) => response.members[group]?.includes(userId))?.[1];
+            }
+        } catch (error: any) {
+            this.runtime.logger?.debug?.(
+                "[OpenChat] Unable to look up command initiator role",
+                error?.message || error,
+            );
+        }
+        this.roles.set(cacheKey, { role, fetchedAt: Date.now() });
+        return role;
+    }
+
+    private cacheKey(locationKey: string): string {
+        return `openchat:command-access:${locationKey}`;
+    }
+}
+
+export default OpenChatCommandAccess;
@@ -0,0 +1,206 @@
+import { IAgentRuntime } from "@elizaos/core";
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_MAX_QUEUED = 50;
+const DEFAULT_USER_CONCURRENCY = 1;
+const DEFAULT_TIMEOUT_MS = 1000 * 60 * 2; // 2 minutes
+
+export type OpenChatCommandJobState = "queued" | "running";
+
+/**
+ * Observable snapshot of a queued or running command job
+ */
+export interface OpenChatCommandJobInfo {
+    id: string;
+    command: string;
+    locationKey: string;
+    initiator: string;
+    state: OpenChatCommandJobState;
+    queuedAt: number;
+    startedAt?: number;
+    timeoutMs: number;
+}
+
+export interface OpenChatCommandJobRequest {
+    command: string;
+    locationKey: string;
+    initiator: string;
+    /** Overrides the configured timeout for this command */
+    timeoutMs?: number;
+    /** The work; should stop delivering output once the signal aborts */
+    run: (signal: AbortSignal) => Promise<void>;
+    /** Called once when the job exceeds its timeout */
+    onTimeout?: () => Promise<void>;
+    /** Called once when the job is cancelled with /cancel */
+    onCancel?: () => Promise<void>;
+}
+
+export type OpenChatCommandJobSubmission =
+    | { accepted: true; job: OpenChatCommandJobInfo }
+    | { accepted: false; reason: "user_limit" | "queue_full" };
+
+interface Job {
+    info: OpenChatCommandJobInfo;
+    request: OpenChatCommandJobRequest;
+    controller: AbortController;
+    timer?: ReturnType<typeof setTimeout>;
+}
+
+function readPositiveInt(runtime: IAgentRuntime, key: string, fallback: number): number {
+    const configured = parseInt((runtime.getSetting(key) as string) || "", 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+/**
+ * Bounded background queue for long-running command work (agent turns, action commands)
+ * Jobs run outside the HTTP request with a concurrency limit, a per-user cap, per-command
+ * timeouts and cancellation. A timed out or cancelled job frees its slot straight away;
+ * the underlying model call cannot be interrupted, so its late output is discarded.
+ */
+export class OpenChatCommandJobs {
+    private readonly queued: Job[] = [];
+    private readonly running = new Map<string, Job>();
+    private readonly maxConcurrency: number;
+    private readonly maxQueued: number;
+    private readonly userConcurrency: number;
+    private readonly defaultTimeoutMs: number;
+    private readonly commandTimeouts: Record<string, number> = {};
+    private sequence = 0;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.maxConcurrency = readPositiveInt(runtime, "OPENCHAT_COMMAND_MAX_CONCURRENCY", DEFAULT_MAX_CONCURRENCY);
+        this.maxQueued = readPositiveInt(runtime, "OPENCHAT_COMMAND_QUEUE_SIZE", DEFAULT_MAX_QUEUED);
+        this.userConcurrency = readPositiveInt(runtime, "OPENCHAT_COMMAND_USER_CONCURRENCY", DEFAULT_USER_CONCURRENCY);
+        this.defaultTimeoutMs = readPositiveInt(runtime, "OPENCHAT_COMMAND_TIMEOUT_MS", DEFAULT_TIMEOUT_MS);
+
+        const raw = runtime.getSetting("OPENCHAT_COMMAND_TIMEOUTS");
+        if (typeof raw === "string" && raw.trim()) {
+            try {
+                for (const [command, value] of Object.entries(JSON.parse(raw))) {
+                    if (typeof value === "number" && value > 0) {
+                        this.commandTimeouts[command] = value;
+                    }
+                }
+            } catch {
+                runtime.logger?.warn?.("[OpenChat] Ignoring invalid OPENCHAT_COMMAND_TIMEOUTS JSON");
+            }
+        }
+    }
+
+    /**
+     * Queue a job, refusing it when the initiator already has too many or the queue is full
+     */
+    public submit(request: OpenChatCommandJobRequest): OpenChatCommandJobSubmission {
+        const active = this.list().filter(
+            (job) => job.initiator === request.initiator && job.locationKey === request.locationKey,
+        );
+        if (active.length >= this.userConcurrency) {
+            return { accepted: false, reason: "user_limit" };
+        }
+        if (this.queued.length >= this.maxQueued) {
+            return { accepted: false, reason: "queue_full" };
+        }
+
+        const job: Job = {
+            info: {
+                id: `${Date.now().toString(36)}-${(++this.sequence).toString(36)}`,
+                command: request.command,
+                locationKey: request.locationKey,
+                initiator: request.initiator,
+                state: "queued",
+                queuedAt: Date.now(),
+                timeoutMs: this.commandTimeouts[request.command] ?? request.timeoutMs ?? this.defaultTimeoutMs,
+            },
+            request,
+            controller: new AbortController(),
+        };
+        this.queued.push(job);
+        this.drain();
+        return { accepted: true, job: { ...job.info } };
+    }
+
+    /**
+     * Cancel an initiator's queued and running jobs in a chat
+     * @returns Number of jobs cancelled
+     */
+    public async cancel(initiator: string, locationKey: string): Promise<number> {
+        const matches = (job: Job) => job.info.initiator === initiator && job.info.locationKey === locationKey;
+        const cancelled = [...this.queued.filter(matches), ...[...this.running.values()].filter(matches)];
+        for (const job of cancelled) {
+            await this.finish(job, "cancelled");
+        }
+        return cancelled.length;
+    }
+
+    /**
+     * Snapshot of everything the bot is currently working on or about to start
+     */
+    public list(): OpenChatCommandJobInfo[] {
+        return [...this.running.values(), ...this.queued].map((job) => ({ ...job.info }));
+    }
+
+    private drain(): void {
+        while (this.running.size < this.maxConcurrency && this.queued.length > 0) {
+            const job = this.queued.shift() as Job;
+            this.start(job);
+        }
+    }
+
+    private start(job: Job): void {
+        job.info.state = "running";
+        job.info.startedAt = Date.now();
+        this.running.set(job.info.id, job);
+        job.timer = setTimeout(() => {
+            void this.finish(job, "timeout");
+        }, job.info.timeoutMs);
+
+        this.runtime.logger?.debug?.(
+            `[OpenChat] Started /${job.info.command} job ${job.info.id} for ${job.info.initiator}`,
+        );
+        job.request
+            .run(job.controller.signal)
+            .catch((error: any) => {
+                if (!job.controller.signal.aborted) {
+                    this.runtime.logger?.error?.(
+                        `[OpenChat] /${job.info.command} job ${job.info.id} failed`,
+                        error?.message || error,
+                    );
+                }
+            })
+            .finally(() => {
+                void this.finish(job, "completed");
+            });
+    }
+
+    private async finish(job: Job, outcome: "completed" | "timeout" | "cancelled"): Promise<void> {
+        const wasQueued = this.queued.includes(job);
+        if (!wasQueued && !this.running.has(job.info.id)) {
+            return;
+        }
+        if (wasQueued) {
+            this.queued.splice(this.queued.indexOf(job), 1);
+        }
+        this.running.delete(job.info.id);
+        clearTimeout(job.timer);
+        this.drain();
+
+        if (outcome === "completed") {
+            return;
+        }
+        job.controller.abort();
+        this.runtime.logger?.info?.(
+            `[OpenChat] /${job.info.command} job ${job.info.id} ${outcome === "timeout" ? "timed out" : "cancelled"}`,
+        );
+        const notify = outcome === "timeout" ? job.request.onTimeout : job.request.onCancel;
+        try {
+            await notify?.();
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Failed to report ${outcome} for /${job.info.command}`,
+                error?.message || error,
+            );
+        }
+    }
+}
+
+export default OpenChatCommandJobs;
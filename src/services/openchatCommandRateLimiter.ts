@@ -0,0 +1,175 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { LruCache } from "../utils/lruCache.js";
+import { TokenBucket } from "../utils/tokenBucket.js";
+
+const BUCKET_CACHE_SIZE = 5000;
+const DEFAULT_RULE_KEY = "*";
+
+/**
+ * Limits for one command; rates are invocations per minute and omitted limits do not apply
+ */
+export interface OpenChatCommandRateLimitRule {
+    /** Per user, per chat */
+    userPerMinute?: number;
+    /** All users in one chat */
+    chatPerMinute?: number;
+    /** All chats together */
+    globalPerMinute?: number;
+    /** Invocations allowed back to back before the rate applies (default: the rate) */
+    burst?: number;
+    /** Minimum gap between two invocations by the same user in a chat */
+    cooldownMs?: number;
+}
+
+export type OpenChatRateLimitReason = "cooldown" | "user" | "chat" | "global";
+
+export interface OpenChatRateLimitDecision {
+    allowed: boolean;
+    reason?: OpenChatRateLimitReason;
+    /** Milliseconds until the command can be used again */
+    retryAfterMs?: number;
+}
+
+export interface OpenChatRateLimitMetrics {
+    allowed: number;
+    throttled: number;
+    byCommand: Record<string, number>;
+    byReason: Record<OpenChatRateLimitReason, number>;
+}
+
+const DEFAULT_RULES: Record<string, OpenChatCommandRateLimitRule> = {
+    [DEFAULT_RULE_KEY]: { userPerMinute: 10 },
+    chat: { userPerMinute: 5, chatPerMinute: 30, cooldownMs: 2000 },
+};
+
+function parseRules(runtime: IAgentRuntime, key: string): Record<string, OpenChatCommandRateLimitRule> {
+    const raw = runtime.getSetting(key);
+    if (typeof raw !== "string" || !raw.trim()) {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(raw);
+        return parsed && typeof parsed === "object" ? parsed : {};
+    } catch {
+        runtime.logger?.warn?.(`[OpenChat] Ignoring invalid ${key} JSON`);
+        return {};
+    }
+}
+
+function positive(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Token bucket rate limits and cooldowns for slash commands
+ * Rules are keyed by command name ("*" applies to every command) and merged from the
+ * defaults, OPENCHAT_COMMAND_RATE_LIMITS and the installation's entry in
+ * OPENCHAT_COMMAND_RATE_LIMITS_OVERRIDES.
+ */
+export class OpenChatCommandRateLimiter {
+    private readonly rules: Record<string, OpenChatCommandRateLimitRule>;
+    private readonly overrides: Record<string, Record<string, OpenChatCommandRateLimitRule>>;
+    private readonly buckets = new LruCache<string, TokenBucket>(BUCKET_CACHE_SIZE);
+    private readonly lastInvocation = new LruCache<string, number>(BUCKET_CACHE_SIZE);
+    private readonly metrics: OpenChatRateLimitMetrics = {
+        allowed: 0,
+        throttled: 0,
+        byCommand: {},
+        byReason: { cooldown: 0, user: 0, chat: 0, global: 0 },
+    };
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        const configured = parseRules(runtime, "OPENCHAT_COMMAND_RATE_LIMITS");
+        this.rules = { ...DEFAULT_RULES };
+        for (const [command, rule] of Object.entries(configured)) {
+            this.rules[command] = { ...this.rules[command], ...rule };
+        }
+        this.overrides = parseRules(runtime, "OPENCHAT_COMMAND_RATE_LIMITS_OVERRIDES") as Record<
+            string,
+            Record<string, OpenChatCommandRateLimitRule>
+        >;
+    }
+
+    /**
+     * Effective limits for a command in an installation
+     */
+    public getRule(commandName: string, locationKey: string): OpenChatCommandRateLimitRule {
+        const installation = this.overrides[locationKey] ?? {};
+        return {
+            ...this.rules[DEFAULT_RULE_KEY],
+            ...this.rules[commandName],
+            ...installation[DEFAULT_RULE_KEY],
+            ...installation[commandName],
+        };
+    }
+
+    /**
+     * Record an invocation if every limit allows it
+     */
+    public consume(commandName: string, locationKey: string, userId: string): OpenChatRateLimitDecision {
+        const rule = this.getRule(commandName, locationKey);
+        const now = Date.now();
+
+        const cooldownMs = positive(rule.cooldownMs);
+        const userKey = `${commandName}:${locationKey}:${userId}`;
+        const last = this.lastInvocation.get(userKey);
+        if (cooldownMs && last !== undefined && now - last < cooldownMs) {
+            return this.throttle(commandName, "cooldown", cooldownMs - (now - last));
+        }
+
+        const limits: Array<[OpenChatRateLimitReason, string, number | undefined]> = [
+            ["user", `user:${userKey}`, positive(rule.userPerMinute)],
+            ["chat", `chat:${commandName}:${locationKey}`, positive(rule.chatPerMinute)],
+            ["global", `global:${commandName}`, positive(rule.globalPerMinute)],
+        ];
+        const buckets: TokenBucket[] = [];
+        for (const [reason, key, rate] of limits) {
+            if (!rate) {
+                continue;
+            }
+            const bucket = this.getBucket(key, rate, positive(rule.burst) ?? rate);
+            const wait = bucket.waitTime();
+            if (wait > 0) {
+                return this.throttle(commandName, reason, wait);
+            }
+            buckets.push(bucket);
+        }
+
+        for (const bucket of buckets) {
+            bucket.tryTake();
+        }
+        this.lastInvocation.set(userKey, now);
+        this.metrics.allowed++;
+        return { allowed: true };
+    }
+
+    public getMetrics(): OpenChatRateLimitMetrics {
+        return {
+            ...this.metrics,
+            byCommand: { ...this.metrics.byCommand },
+            byReason: { ...this.metrics.byReason },
+        };
+    }
+
+    private getBucket(key: string, ratePerMinute: number, burst: number): TokenBucket {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = new TokenBucket(Math.max(1, burst), ratePerMinute);
+            this.buckets.set(key, bucket);
+        }
+        return bucket;
+    }
+
+    private throttle(
+        commandName: string,
+        reason: OpenChatRateLimitReason,
+        retryAfterMs: number,
+    ): OpenChatRateLimitDecision {
+        this.metrics.throttled++;
+        this.metrics.byCommand[commandName] = (this.metrics.byCommand[commandName] ?? 0) + 1;
+        this.metrics.byReason[reason]++;
+        return { allowed: false, reason, retryAfterMs };
+    }
+}
+
+export default OpenChatCommandRateLimiter;
@@ -0,0 +1,236 @@
+import { IAgentRuntime } from "@elizaos/core";
+
+/**
+ * When the agent should consider replying to autonomous messages
+ * - always: every message
+ * - mention: only when the bot is mentioned
+ * - reply: only replies to the bot's messages
+ * - mention_or_reply: either of the above
+ * - dm_only: direct messages only
+ * - never: no autonomous replies
+ */
+export type OpenChatEngagementMode =
+    | "always"
+    | "mention"
+    | "reply"
+    | "mention_or_reply"
+    | "dm_only"
+    | "never";
+
+export interface OpenChatEngagementConfig {
+    /** Mode for groups and channels */
+    mode: OpenChatEngagementMode;
+    /** Mode for direct messages */
+    directMode: OpenChatEngagementMode;
+    /** Words or phrases that trigger engagement regardless of mode */
+    keywords: string[];
+    /** UTC hours [start, end) during which group messages are ignored */
+    quietHours?: { start: number; end: number };
+    /** Fraction (0-1) of unaddressed messages to engage with */
+    sampleRate: number;
+}
+
+export interface OpenChatEngagementInput {
+    locationKey: string;
+    chatKind: "direct" | "group" | "channel";
+    text: string;
+    isMention: boolean;
+    isReplyToBot: boolean;
+    now?: Date;
+}
+
+export interface OpenChatEngagementDecision {
+    engage: boolean;
+    reason: string;
+}
+
+const ENGAGEMENT_MODES: OpenChatEngagementMode[] = [
+    "always",
+    "mention",
+    "reply",
+    "mention_or_reply",
+    "dm_only",
+    "never",
+];
+
+function parseMode(value: unknown): OpenChatEngagementMode | undefined {
+    if (typeof value !== "string") {
+        return undefined;
+    }
+    const normalized = value.trim().toLowerCase().replace(/-/g, "_") as OpenChatEngagementMode;
+    return ENGAGEMENT_MODES.includes(normalized) ? normalized : undefined;
+}
+
+function parseKeywords(value: unknown): string[] | undefined {
+    if (Array.isArray(value)) {
+        return value.map((keyword) => String(keyword).trim().toLowerCase()).filter(Boolean);
+    }
+    if (typeof value === "string") {
+        return value
+            .split(",")
+            .map((keyword) => keyword.trim().toLowerCase())
+            .filter(Boolean);
+    }
+    return undefined;
+}
+
+function parseQuietHours(value: unknown): OpenChatEngagementConfig["quietHours"] | undefined {
+    if (value && typeof value === "object" && "start" in value && "end" in value) {
+        return value as OpenChatEngagementConfig["quietHours"];
+    }
+    if (typeof value !== "string") {
+        return undefined;
+    }
+    const match = /^\s*(\d{1,2})\s*-\s*(\d{1,2})\s*$/.exec(value);
+    if (!match) {
+        return undefined;
+    }
+    return { start: Number(match[1]) % 24, end: Number(match[2]) % 24 };
+}
+
+function parseSampleRate(value: unknown): number | undefined {
+    const rate = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+    return Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : undefined;
+}
+
+function parseConfig(raw: Record<string, unknown> | undefined): Partial<OpenChatEngagementConfig> {
+    if (!raw) {
+        return {};
+    }
+    const config: Partial<OpenChatEngagementConfig> = {};
+    const mode = parseMode(raw.mode);
+    const directMode = parseMode(raw.directMode);
+    const keywords = parseKeywords(raw.keywords);
+    const quietHours = parseQuietHours(raw.quietHours);
+    const sampleRate = parseSampleRate(raw.sampleRate);
+    if (mode) config.mode = mode;
+    if (directMode) config.directMode = directMode;
+    if (keywords) config.keywords = keywords;
+    if (quietHours) config.quietHours = quietHours;
+    if (sampleRate !== undefined) config.sampleRate = sampleRate;
+    return config;
+}
+
+function isWithinQuietHours(quietHours: OpenChatEngagementConfig["quietHours"], now: Date): boolean {
+    if (!quietHours || quietHours.start === quietHours.end) {
+        return false;
+    }
+    const hour = now.getUTCHours();
+    return quietHours.start < quietHours.end
+        ? hour >= quietHours.start && hour < quietHours.end
+        : hour >= quietHours.start || hour < quietHours.end;
+}
+
+/**
+ * Decides whether an autonomous message should reach the runtime
+ * Defaults come from OPENCHAT_ENGAGEMENT_* settings (or `settings.openchat.engagement`),
+ * with overrides keyed by installation `locationKey`.
+ */
+export class OpenChatEngagementPolicy {
+    private readonly defaults: OpenChatEngagementConfig;
+    private readonly overrides = new Map<string, Partial<OpenChatEngagementConfig>>();
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        const characterConfig = (runtime.character?.settings as any)?.openchat?.engagement ?? {};
+
+        this.defaults = {
+            mode: "always",
+            directMode: "always",
+            keywords: [],
+            sampleRate: 1,
+            ...parseConfig({
+                mode: runtime.getSetting("OPENCHAT_ENGAGEMENT_MODE"),
+                directMode: runtime.getSetting("OPENCHAT_DM_ENGAGEMENT_MODE"),
+                keywords: runtime.getSetting("OPENCHAT_ENGAGEMENT_KEYWORDS"),
+                quietHours: runtime.getSetting("OPENCHAT_QUIET_HOURS"),
+                sampleRate: runtime.getSetting("OPENCHAT_ENGAGEMENT_SAMPLE_RATE"),
+            }),
+            ...parseConfig(characterConfig.default ?? characterConfig),
+        };
+
+        const configuredOverrides = {
+            ...this.parseOverridesSetting(),
+            ...(characterConfig.overrides ?? {}),
+        } as Record<string, Record<string, unknown>>;
+        for (const [locationKey, override] of Object.entries(configuredOverrides)) {
+            this.overrides.set(locationKey, parseConfig(override));
+        }
+    }
+
+    public getConfig(locationKey: string): OpenChatEngagementConfig {
+        return { ...this.defaults, ...this.overrides.get(locationKey) };
+    }
+
+    public setOverride(locationKey: string, override: Partial<OpenChatEngagementConfig>): void {
+        this.overrides.set(locationKey, {
+            ...this.overrides.get(locationKey),
+            ...parseConfig(override as Record<string, unknown>),
+        });
+    }
+
+    public clearOverride(locationKey: string): void {
+        this.overrides.delete(locationKey);
+    }
+
+    public evaluate(input: OpenChatEngagementInput): OpenChatEngagementDecision {
+        const config = this.getConfig(input.locationKey);
+        const isDirect = input.chatKind === "direct";
+        const now = input.now ?? new Date();
+
+        if (!isDirect && isWithinQuietHours(config.quietHours, now)) {
+            return { engage: false, reason: "quiet hours" };
+        }
+
+        const mode = isDirect ? config.directMode : config.mode;
+        const addressed = isDirect || input.isMention || input.isReplyToBot;
+        const modeAllows = (() => {
+            switch (mode) {
+                case "always":
+                    return true;
+                case "mention":
+                    return input.isMention;
+                case "reply":
+                    return input.isReplyToBot;
+                case "mention_or_reply":
+                    return input.isMention || input.isReplyToBot;
+                case "dm_only":
+                    return isDirect;
+                default:
+                    return false;
+            }
+        })();
+
+        if (!modeAllows) {
+            const normalized = input.text.toLowerCase();
+            const keyword = config.keywords.find((candidate) => normalized.includes(candidate));
+            if (keyword && mode !== "never") {
+                return { engage: true, reason: `keyword '${keyword}'` };
+            }
+            return { engage: false, reason: `mode ${mode}` };
+        }
+
+        if (!addressed && config.sampleRate < 1 && Math.random() >= config.sampleRate) {
+            return { engage: false, reason: `sampled out (rate ${config.sampleRate})` };
+        }
+
+        return { engage: true, reason: addressed ? "addressed" : `mode ${mode}` };
+    }
+
+    private parseOverridesSetting(): Record<string, Record<string, unknown>> {
+        const raw = this.runtime.getSetting("OPENCHAT_ENGAGEMENT_OVERRIDES");
+        if (typeof raw !== "string" || !raw.trim()) {
+            return {};
+        }
+        try {
+            return JSON.parse(raw);
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                "[OpenChat] Ignoring invalid OPENCHAT_ENGAGEMENT_OVERRIDES JSON",
+                error?.message || error,
+            );
+            return {};
+        }
+    }
+}
+
+export default OpenChatEngagementPolicy;
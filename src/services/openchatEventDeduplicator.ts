@@ -0,0 +1,76 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { LruCache } from "../utils/lruCache.js";
+
+const DEFAULT_CACHE_SIZE = 5000;
+const PERSISTED_TTL_MS = 1000 * 60 * 60 * 24; // 24 hours
+
+interface PersistedEventMark {
+    seenAt: number;
+}
+
+/**
+ * Remembers which notifications have already been processed so retried or duplicated
+ * deliveries are handled once
+ * Keys live in a bounded in-memory LRU; with OPENCHAT_DEDUPE_PERSIST=true they are also
+ * written to the runtime cache so duplicates arriving after a restart are caught.
+ */
+export class OpenChatEventDeduplicator {
+    private readonly seen: LruCache<string, number>;
+    private readonly persist: boolean;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        const configured = parseInt((runtime.getSetting("OPENCHAT_DEDUPE_CACHE_SIZE") as string) || "", 10);
+        this.seen = new LruCache(Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_CACHE_SIZE);
+        this.persist = runtime.getSetting("OPENCHAT_DEDUPE_PERSIST") === "true";
+    }
+
+    /**
+     * Mark an event as being processed
+     * @returns false when the key was already claimed, i.e. the event is a duplicate
+     */
+    public async claim(key: string): Promise<boolean> {
+        // The in-memory check is synchronous so concurrent deliveries cannot both pass
+        if (this.seen.has(key)) {
+            return false;
+        }
+        this.seen.set(key, Date.now());
+        if (!this.persist) {
+            return true;
+        }
+
+        try {
+            const mark = await this.runtime.getCache<PersistedEventMark>(this.cacheKey(key));
+            if (mark && Date.now() - mark.seenAt < PERSISTED_TTL_MS) {
+                return false;
+            }
+            await this.runtime.setCache<PersistedEventMark>(this.cacheKey(key), { seenAt: Date.now() });
+        } catch (error: any) {
+            this.runtime.logger?.debug?.(
+                "[OpenChat] Dedupe store unavailable, using in-memory state only",
+                error?.message || error,
+            );
+        }
+        return true;
+    }
+
+    /**
+     * Forget a claim so a retried delivery is processed again (e.g. after a failure)
+     */
+    public async release(key: string): Promise<void> {
+        this.seen.delete(key);
+        if (!this.persist) {
+            return;
+        }
+        try {
+            await this.runtime.deleteCache(this.cacheKey(key));
+        } catch (error: any) {
+            this.runtime.logger?.debug?.("[OpenChat] Failed to release dedupe key", error?.message || error);
+        }
+    }
+
+    private cacheKey(key: string): string {
+        return `openchat:seen:${key}`;
+    }
+}
+
+export default OpenChatEventDeduplicator;
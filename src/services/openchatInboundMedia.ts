@@ -0,0 +1,222 @@
+import { ContentType, IAgentRuntime, Media, ModelType } from "@elizaos/core";
+import { MessageEvent as OCMessageEvent } from "@open-ic/openchat-botclient-ts";
+import { LruCache } from "../utils/lruCache.js";
+import { getBlobId, getBlobUrl, loadRemoteMedia } from "../utils/openchatMedia.js";
+
+const DEFAULT_MAX_INBOUND_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_INBOUND_AUDIO_BYTES = 25 * 1024 * 1024;
+const DESCRIPTION_CACHE_SIZE = 200;
+
+const IMAGE_PROMPT =
+    "Describe this image for a chat assistant. Transcribe any visible text, error messages or code exactly.";
+
+type MessageContent = OCMessageEvent["content"];
+
+interface ImageDescription {
+    title: string;
+    description: string;
+}
+
+/**
+ * Text and attachments that stand in for a media message when it reaches the runtime
+ */
+export interface OpenChatInboundMediaResult {
+    text: string;
+    attachments: Media[];
+}
+
+/**
+ * Runtime cache key under which voice note transcripts are stored
+ * Shared with READ_OPENCHAT_HISTORY so history shows what was said.
+ */
+export function getTranscriptCacheKey(blobId: string): string {
+    return `openchat:transcript:${blobId}`;
+}
+
+export function formatTranscript(transcript: string, caption?: string): string {
+    const label = `[Transcribed voice note] ${transcript}`;
+    return caption?.trim() ? `${caption.trim()}\n${label}` : label;
+}
+
+function readPositiveInt(runtime: IAgentRuntime, key: string, fallback: number): number {
+    const configured = parseInt((runtime.getSetting(key) as string) || "", 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+/**
+ * Turns inbound OpenChat media into something the agent can read
+ * Images are downloaded from OpenChat storage and described with the runtime's
+ * IMAGE_DESCRIPTION model, voice notes are transcribed with TRANSCRIPTION; results are
+ * cached by blob id.
+ */
+export class OpenChatInboundMedia {
+    private readonly descriptions = new LruCache<string, ImageDescription>(DESCRIPTION_CACHE_SIZE);
+    private readonly icHost?: string;
+    private readonly imagesEnabled: boolean;
+    private readonly maxImageBytes: number;
+    private readonly audioEnabled: boolean;
+    private readonly maxAudioBytes: number;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.icHost = (runtime.getSetting("OPENCHAT_IC_HOST") as string) || undefined;
+        this.imagesEnabled = runtime.getSetting("OPENCHAT_IMAGE_UNDERSTANDING") !== "false";
+        this.maxImageBytes = readPositiveInt(
+            runtime,
+            "OPENCHAT_MAX_INBOUND_IMAGE_BYTES",
+            DEFAULT_MAX_INBOUND_IMAGE_BYTES,
+        );
+        this.audioEnabled = runtime.getSetting("OPENCHAT_VOICE_TRANSCRIPTION") !== "false";
+        this.maxAudioBytes = readPositiveInt(
+            runtime,
+            "OPENCHAT_MAX_INBOUND_AUDIO_BYTES",
+            DEFAULT_MAX_INBOUND_AUDIO_BYTES,
+        );
+    }
+
+    /**
+     * Enrich the placeholder text for a media message
+     * Returns undefined when the content is not media or could not be processed.
+     */
+    public async process(content: MessageContent): Promise<OpenChatInboundMediaResult | undefined> {
+        if (content.kind === "image_content" && this.imagesEnabled) {
+            return this.processImage(content);
+        }
+        if (content.kind === "audio_content" && this.audioEnabled) {
+            return this.processAudio(content);
+        }
+        return undefined;
+    }
+
+    private async processAudio(
+        content: Extract<MessageContent, { kind: "audio_content" }>,
+    ): Promise<OpenChatInboundMediaResult | undefined> {
+        const url = getBlobUrl(content, this.icHost);
+        if (!url) {
+            return undefined;
+        }
+        const blobId = getBlobId(content) ?? url;
+
+        const transcript = await this.transcribe(blobId, url);
+        if (!transcript) {
+            return undefined;
+        }
+
+        return {
+            text: formatTranscript(transcript, content.caption),
+            attachments: [
+                {
+                    id: blobId,
+                    url,
+                    title: "Voice note",
+                    source: "openchat",
+                    description: "Transcribed voice note",
+                    text: transcript,
+                    contentType: ContentType.AUDIO,
+                },
+            ],
+        };
+    }
+
+    private async transcribe(blobId: string, url: string): Promise<string | undefined> {
+        const cacheKey = getTranscriptCacheKey(blobId);
+        try {
+            const cached = await this.runtime.getCache<string>(cacheKey);
+            if (cached) {
+                return cached;
+            }
+        } catch {
+            // Cache misses are handled by transcribing again
+        }
+
+        try {
+            const media = await loadRemoteMedia({ id: blobId, url } as Media, this.maxAudioBytes);
+            const result = await this.runtime.useModel(
+                ModelType.TRANSCRIPTION,
+                Buffer.from(media.data),
+            );
+            const transcript = typeof result === "string" ? result.trim() : "";
+            if (!transcript) {
+                return undefined;
+            }
+            await this.runtime.setCache(cacheKey, transcript);
+            return transcript;
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Unable to transcribe audio ${blobId}`,
+                error?.message || error,
+            );
+            return undefined;
+        }
+    }
+
+    private async processImage(
+        content: Extract<MessageContent, { kind: "image_content" }>,
+    ): Promise<OpenChatInboundMediaResult | undefined> {
+        const url = getBlobUrl(content, this.icHost);
+        if (!url) {
+            return undefined;
+        }
+        const blobId = getBlobId(content) ?? url;
+
+        const description = await this.describeImage(blobId, url);
+        if (!description) {
+            return undefined;
+        }
+
+        const caption = content.caption?.trim();
+        const lines = [
+            caption ? `Shared an image: ${caption}` : "Shared an image.",
+            `[Image: ${description.title ? `${description.title} - ` : ""}${description.description}]`,
+        ];
+        return {
+            text: lines.join("\n"),
+            attachments: [
+                {
+                    id: blobId,
+                    url,
+                    title: description.title || "Image",
+                    source: "openchat",
+                    description: description.description,
+                    text: description.description,
+                    contentType: ContentType.IMAGE,
+                },
+            ],
+        };
+    }
+
+    private async describeImage(blobId: string, url: string): Promise<ImageDescription | undefined> {
+        const cached = this.descriptions.get(blobId);
+        if (cached) {
+            return cached;
+        }
+
+        try {
+            const media = await loadRemoteMedia({ id: blobId, url } as Media, this.maxImageBytes);
+            if (media.kind !== "image") {
+                return undefined;
+            }
+            const imageUrl = `data:${media.mimeType};base64,${Buffer.from(media.data).toString("base64")}`;
+            const result = await this.runtime.useModel(ModelType.IMAGE_DESCRIPTION, {
+                imageUrl,
+                prompt: IMAGE_PROMPT,
+            });
+            const description: ImageDescription =
+                typeof result === "string"
+                    ? { title: "", description: result }
+                    : { title: result?.title ?? "", description: result?.description ?? "" };
+            if (!description.description.trim()) {
+                return undefined;
+            }
+            this.descriptions.set(blobId, description);
+            return description;
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Unable to describe image ${blobId}`,
+                error?.message || error,
+            );
+            return undefined;
+        }
+    }
+}
+
+export default OpenChatInboundMedia;
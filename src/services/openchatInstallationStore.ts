@@ -0,0 +1,356 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import { IAgentRuntime } from "@elizaos/core";
+import {
+    CommunityIdentifier,
+    DirectChatIdentifier,
+    GroupChatIdentifier,
+    InstallationLocation,
+    InstallationRecord,
+    Permissions,
+} from "@open-ic/openchat-botclient-ts";
+
+/**
+ * Serialisable snapshot of a single installation.
+ * Bigints are stored as strings so every backend can round-trip them through JSON.
+ */
+export type StoredInstallation = {
+    locationKey: string;
+    location: {
+        kind: "community" | "group_chat" | "direct_chat";
+        id: string;
+    };
+    apiGateway: string;
+    grantedCommandPermissions: unknown;
+    grantedAutonomousPermissions: unknown;
+    installedAt: string;
+};
+
+/**
+ * Persistence backend for the installation registry.
+ * `watermark` is the newest installation event timestamp that has been applied.
+ */
+export interface OpenChatInstallationStore {
+    readonly kind: string;
+    load(): Promise<StoredInstallation[]>;
+    save(installation: StoredInstallation): Promise<void>;
+    remove(locationKey: string): Promise<void>;
+    getWatermark(): Promise<bigint | undefined>;
+    setWatermark(watermark: bigint): Promise<void>;
+}
+
+type StoreSnapshot = {
+    watermark?: string;
+    installations: Record<string, StoredInstallation>;
+};
+
+const DEFAULT_STORE_FILE = "./data/openchat-installations.json";
+const DEFAULT_SQLITE_FILE = "./data/openchat-installations.sqlite";
+const RUNTIME_CACHE_KEY = "openchat:installations";
+
+export function serializeInstallation(
+    locationKey: string,
+    location: InstallationLocation,
+    record: InstallationRecord,
+): StoredInstallation {
+    const raw = location as any;
+    const id =
+        raw.kind === "community"
+            ? raw.communityId
+            : raw.kind === "group_chat"
+            ? raw.groupId
+            : raw.userId;
+    return {
+        locationKey,
+        location: { kind: raw.kind, id },
+        apiGateway: record.apiGateway,
+        grantedCommandPermissions: record.grantedCommandPermissions?.rawPermissions,
+        grantedAutonomousPermissions: record.grantedAutonomousPermissions?.rawPermissions,
+        installedAt: record.installedAt.toString(),
+    };
+}
+
+export function deserializeInstallation(stored: StoredInstallation): {
+    location: InstallationLocation;
+    record: InstallationRecord;
+} {
+    let location: InstallationLocation;
+    switch (stored.location.kind) {
+        case "community":
+            location = new CommunityIdentifier(stored.location.id);
+            break;
+        case "group_chat":
+            location = new GroupChatIdentifier(stored.location.id);
+            break;
+        default:
+            location = new DirectChatIdentifier(stored.location.id);
+    }
+    const record = new InstallationRecord(
+        stored.apiGateway,
+        new Permissions(stored.grantedCommandPermissions as any),
+        new Permissions(stored.grantedAutonomousPermissions as any),
+        BigInt(stored.installedAt),
+    );
+    return { location, record };
+}
+
+/**
+ * Keeps installations for the lifetime of the process only (previous behaviour).
+ */
+export class MemoryInstallationStore implements OpenChatInstallationStore {
+    readonly kind = "memory";
+    private snapshot: StoreSnapshot = { installations: {} };
+
+    async load(): Promise<StoredInstallation[]> {
+        return Object.values(this.snapshot.installations);
+    }
+
+    async save(installation: StoredInstallation): Promise<void> {
+        this.snapshot.installations[installation.locationKey] = installation;
+    }
+
+    async remove(locationKey: string): Promise<void> {
+        delete this.snapshot.installations[locationKey];
+    }
+
+    async getWatermark(): Promise<bigint | undefined> {
+        return this.snapshot.watermark ? BigInt(this.snapshot.watermark) : undefined;
+    }
+
+    async setWatermark(watermark: bigint): Promise<void> {
+        this.snapshot.watermark = watermark.toString();
+    }
+}
+
+/**
+ * Stores the registry as a single JSON document, rewritten atomically on every change.
+ */
+export class FileInstallationStore implements OpenChatInstallationStore {
+    readonly kind = "file";
+    private readonly path: string;
+    private snapshot?: StoreSnapshot;
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(path: string = DEFAULT_STORE_FILE) {
+        this.path = resolve(path);
+    }
+
+    async load(): Promise<StoredInstallation[]> {
+        const snapshot = await this.read();
+        return Object.values(snapshot.installations);
+    }
+
+    async save(installation: StoredInstallation): Promise<void> {
+        await this.update((snapshot) => {
+            snapshot.installations[installation.locationKey] = installation;
+        });
+    }
+
+    async remove(locationKey: string): Promise<void> {
+        await this.update((snapshot) => {
+            delete snapshot.installations[locationKey];
+        });
+    }
+
+    async getWatermark(): Promise<bigint | undefined> {
+        const snapshot = await this.read();
+        return snapshot.watermark ? BigInt(snapshot.watermark) : undefined;
+    }
+
+    async setWatermark(watermark: bigint): Promise<void> {
+        await this.update((snapshot) => {
+            snapshot.watermark = watermark.toString();
+        });
+    }
+
+    private async read(): Promise<StoreSnapshot> {
+        if (this.snapshot) {
+            return this.snapshot;
+        }
+        try {
+            const contents = await readFile(this.path, "utf8");
+            const parsed = JSON.parse(contents) as StoreSnapshot;
+            this.snapshot = {
+                watermark: parsed.watermark,
+                installations: parsed.installations ?? {},
+            };
+        } catch (error: any) {
+            if (error?.code !== "ENOENT") {
+                throw error;
+            }
+            this.snapshot = { installations: {} };
+        }
+        return this.snapshot;
+    }
+
+    private update(mutate: (snapshot: StoreSnapshot) => void): Promise<void> {
+        // Serialise writes so concurrent installs never interleave partial files
+        const next = this.writes.then(async () => {
+            const snapshot = await this.read();
+            mutate(snapshot);
+            await mkdir(dirname(this.path), { recursive: true });
+            const tempPath = `${this.path}.tmp`;
+            await writeFile(tempPath, JSON.stringify(snapshot, null, 2), "utf8");
+            await rename(tempPath, this.path);
+        });
+        // A failed write is reported to its caller without blocking later writes
+        this.writes = next.catch(() => {});
+        return next;
+    }
+}
+
+/**
+ * SQLite-backed registry. Requires the optional `better-sqlite3` package.
+ */
+export class SqliteInstallationStore implements OpenChatInstallationStore {
+    readonly kind = "sqlite";
+    private readonly path: string;
+    private db?: Promise<any>;
+
+    constructor(path: string = DEFAULT_SQLITE_FILE) {
+        this.path = resolve(path);
+    }
+
+    async load(): Promise<StoredInstallation[]> {
+        const db = await this.open();
+        const rows = db.prepare("SELECT data FROM installations").all() as Array<{ data: string }>;
+        return rows.map((row) => JSON.parse(row.data) as StoredInstallation);
+    }
+
+    async save(installation: StoredInstallation): Promise<void> {
+        const db = await this.open();
+        db.prepare(
+            "INSERT INTO installations (location_key, data) VALUES (?, ?) " +
+                "ON CONFLICT(location_key) DO UPDATE SET data = excluded.data",
+        ).run(installation.locationKey, JSON.stringify(installation));
+    }
+
+    async remove(locationKey: string): Promise<void> {
+        const db = await this.open();
+        db.prepare("DELETE FROM installations WHERE location_key = ?").run(locationKey);
+    }
+
+    async getWatermark(): Promise<bigint | undefined> {
+        const db = await this.open();
+        const row = db.prepare("SELECT value FROM installation_meta WHERE key = 'watermark'").get() as
+            | { value: string }
+            | undefined;
+        return row ? BigInt(row.value) : undefined;
+    }
+
+    async setWatermark(watermark: bigint): Promise<void> {
+        const db = await this.open();
+        db.prepare(
+            "INSERT INTO installation_meta (key, value) VALUES ('watermark', ?) " +
+                "ON CONFLICT(key) DO UPDATE SET value = excluded.value",
+        ).run(watermark.toString());
+    }
+
+    private open(): Promise<any> {
+        if (!this.db) {
+            this.db = (async () => {
+                // Resolved at runtime so the dependency stays optional
+                const moduleName = "better-sqlite3";
+                let Database: any;
+                try {
+                    Database = (await import(moduleName)).default;
+                } catch {
+                    throw new Error(
+                        "SQLite installation store requires the 'better-sqlite3' package to be installed",
+                    );
+                }
+                await mkdir(dirname(this.path), { recursive: true });
+                const db = new Database(this.path);
+                db.exec(
+                    "CREATE TABLE IF NOT EXISTS installations (location_key TEXT PRIMARY KEY, data TEXT NOT NULL);" +
+                        "CREATE TABLE IF NOT EXISTS installation_meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);",
+                );
+                return db;
+            })();
+        }
+        return this.db;
+    }
+}
+
+/**
+ * Adapter over the ElizaOS runtime database (agent-scoped cache table).
+ */
+export class RuntimeInstallationStore implements OpenChatInstallationStore {
+    readonly kind = "runtime";
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(private readonly runtime: IAgentRuntime) {}
+
+    async load(): Promise<StoredInstallation[]> {
+        const snapshot = await this.read();
+        return Object.values(snapshot.installations);
+    }
+
+    async save(installation: StoredInstallation): Promise<void> {
+        await this.update((snapshot) => {
+            snapshot.installations[installation.locationKey] = installation;
+        });
+    }
+
+    async remove(locationKey: string): Promise<void> {
+        await this.update((snapshot) => {
+            delete snapshot.installations[locationKey];
+        });
+    }
+
+    async getWatermark(): Promise<bigint | undefined> {
+        const snapshot = await this.read();
+        return snapshot.watermark ? BigInt(snapshot.watermark) : undefined;
+    }
+
+    async setWatermark(watermark: bigint): Promise<void> {
+        await this.update((snapshot) => {
+            snapshot.watermark = watermark.toString();
+        });
+    }
+
+    private async read(): Promise<StoreSnapshot> {
+        const cached = await this.runtime.getCache<StoreSnapshot>(RUNTIME_CACHE_KEY);
+        return {
+            watermark: cached?.watermark,
+            installations: { ...(cached?.installations ?? {}) },
+        };
+    }
+
+    private update(mutate: (snapshot: StoreSnapshot) => void): Promise<void> {
+        const next = this.writes.then(async () => {
+            const snapshot = await this.read();
+            mutate(snapshot);
+            await this.runtime.setCache(RUNTIME_CACHE_KEY, snapshot);
+        });
+        this.writes = next.catch(() => {});
+        return next;
+    }
+}
+
+/**
+ * Build the installation store selected by OPENCHAT_INSTALLATION_STORE
+ * (`runtime` by default, or `file`, `sqlite`, `memory`).
+ */
+export function createInstallationStore(runtime: IAgentRuntime): OpenChatInstallationStore {
+    const kind = ((runtime.getSetting("OPENCHAT_INSTALLATION_STORE") as string) || "runtime")
+        .trim()
+        .toLowerCase();
+    const path = (runtime.getSetting("OPENCHAT_INSTALLATION_STORE_PATH") as string) || undefined;
+
+    switch (kind) {
+        case "memory":
+            return new MemoryInstallationStore();
+        case "file":
+            return new FileInstallationStore(path);
+        case "sqlite":
+            return new SqliteInstallationStore(path);
+        case "runtime":
+            return new RuntimeInstallationStore(runtime);
+        default:
+            runtime.logger?.warn?.(
+                `[OpenChat] Unknown installation store '${kind}', falling back to runtime store`,
+            );
+            return new RuntimeInstallationStore(runtime);
+    }
+}
@@ -0,0 +1,374 @@
+import {
+    IAgentRuntime,
+    Media,
+    Memory,
+    MemoryScope,
+    MemoryType,
+    ModelType,
+    UUID,
+    splitChunks,
+} from "@elizaos/core";
+import { MessageEvent as OCMessageEvent } from "@open-ic/openchat-botclient-ts";
+import { OpenChatMessageMetadata } from "../types/index.js";
+import { makeDocumentUuid, makeRoomUuid } from "../utils/openchatIds.js";
+import { getBlobId, getBlobUrl, loadRemoteMedia } from "../utils/openchatMedia.js";
+import { extractDocumentText, getIngestibleMimeType } from "../utils/openchatDocuments.js";
+import { KeyedSerialQueue } from "../utils/keyedSerialQueue.js";
+
+const DEFAULT_MAX_INBOUND_FILE_BYTES = 10 * 1024 * 1024;
+const CHUNK_SIZE = 512;
+const CHUNK_BLEED = 20;
+const SEARCH_MATCH_THRESHOLD = 0.5;
+
+type FileContent = Extract<OCMessageEvent["content"], { kind: "file_content" }>;
+
+/**
+ * Where ingested documents are visible: only the chat/thread they were shared in,
+ * or every chat of the installation (e.g. all channels of a community)
+ */
+export type OpenChatKnowledgeScope = "room" | "installation";
+
+/**
+ * Registry entry for an ingested document
+ */
+export interface OpenChatIngestedDocument {
+    id: UUID;
+    name: string;
+    mimeType: string;
+    size: number;
+    fragmentIds: UUID[];
+    /** Stored through the knowledge plugin rather than as plain memories */
+    viaKnowledgeService: boolean;
+    sharedBy: string;
+    addedAt: number;
+}
+
+interface KnowledgeService {
+    addKnowledge(options: Record<string, unknown>): Promise<{
+        storedDocumentMemoryId?: UUID;
+        fragmentCount?: number;
+    }>;
+    deleteMemory?(memoryId: UUID): Promise<void>;
+}
+
+/**
+ * Opt-in ingestion of shared files into agent knowledge
+ * Uses the knowledge plugin when it is loaded; otherwise documents are chunked into
+ * `documents` / `knowledge` memories scoped to the room (see sharedDocumentsProvider).
+ */
+export class OpenChatKnowledgeIngest {
+    private readonly enabled: boolean;
+    private readonly allowedLocations: string[];
+    private readonly scope: OpenChatKnowledgeScope;
+    private readonly maxBytes: number;
+    private readonly registryUpdates = new KeyedSerialQueue();
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.enabled = runtime.getSetting("OPENCHAT_FILE_INGESTION") === "true";
+        this.allowedLocations = ((runtime.getSetting("OPENCHAT_FILE_INGESTION_CHATS") as string) || "")
+            .split(",")
+            .map((entry) => entry.trim())
+            .filter(Boolean);
+        this.scope =
+            runtime.getSetting("OPENCHAT_FILE_INGESTION_SCOPE") === "installation" ? "installation" : "room";
+        const configured = parseInt((runtime.getSetting("OPENCHAT_MAX_INBOUND_FILE_BYTES") as string) || "", 10);
+        this.maxBytes =
+            Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_INBOUND_FILE_BYTES;
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    public isAllowed(metadata: OpenChatMessageMetadata): boolean {
+        if (!this.enabled) {
+            return false;
+        }
+        return (
+            this.allowedLocations.length === 0 ||
+            this.allowedLocations.includes("*") ||
+            this.allowedLocations.includes(metadata.locationKey)
+        );
+    }
+
+    /**
+     * Registry key and knowledge room for a chat, per the configured scope
+     */
+    public getScope(metadata: OpenChatMessageMetadata): { key: string; roomId: UUID } {
+        if (this.scope === "installation") {
+            return {
+                key: metadata.locationKey,
+                roomId: makeRoomUuid("installation", metadata.locationKey),
+            };
+        }
+        return { key: metadata.roomKey, roomId: makeRoomUuid(metadata.chatKind, metadata.roomKey) };
+    }
+
+    public async list(metadata: OpenChatMessageMetadata): Promise<OpenChatIngestedDocument[]> {
+        return this.readRegistry(this.getScope(metadata).key);
+    }
+
+    /**
+     * Find fragments of documents stored as plain memories that match a query
+     * Documents held by the knowledge plugin are served by its own provider.
+     */
+    public async search(
+        metadata: Pick<OpenChatMessageMetadata, "chatKind" | "roomKey" | "locationKey">,
+        query: string,
+        count = 5,
+    ): Promise<Array<{ document: string; text: string }>> {
+        const scopes = [
+            { key: metadata.roomKey, roomId: makeRoomUuid(metadata.chatKind, metadata.roomKey) },
+            { key: metadata.locationKey, roomId: makeRoomUuid("installation", metadata.locationKey) },
+        ];
+        const names = new Map<UUID, string>();
+        const roomIds: UUID[] = [];
+        for (const scope of scopes) {
+            const documents = (await this.readRegistry(scope.key)).filter(
+                (document) => !document.viaKnowledgeService,
+            );
+            documents.forEach((document) => names.set(document.id, document.name));
+            if (documents.length) {
+                roomIds.push(scope.roomId);
+            }
+        }
+        if (!roomIds.length || !query.trim()) {
+            return [];
+        }
+
+        const embedding = await this.runtime.useModel(ModelType.TEXT_EMBEDDING, { text: query });
+        const results: Array<{ document: string; text: string; similarity: number }> = [];
+        for (const roomId of roomIds) {
+            const fragments = await this.runtime.searchMemories({
+                tableName: "knowledge",
+                embedding,
+                roomId,
+                count,
+                match_threshold: SEARCH_MATCH_THRESHOLD,
+            });
+            for (const fragment of fragments) {
+                const documentId = (fragment.metadata as any)?.documentId as UUID | undefined;
+                results.push({
+                    document: (documentId && names.get(documentId)) || "document",
+                    text: fragment.content.text ?? "",
+                    similarity: fragment.similarity ?? 0,
+                });
+            }
+        }
+        return results
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, count)
+            .map(({ document, text }) => ({ document, text }));
+    }
+
+    /**
+     * Download, extract and store a shared file
+     * Returns undefined when the file type is unsupported or nothing could be extracted.
+     */
+    public async ingest(
+        content: FileContent,
+        metadata: OpenChatMessageMetadata,
+        sender: string,
+        entityId: UUID,
+    ): Promise<OpenChatIngestedDocument | undefined> {
+        const mimeType = getIngestibleMimeType(content.name, content.mimeType);
+        if (!mimeType) {
+            this.runtime.logger?.debug?.(`[OpenChat] Not ingesting unsupported file ${content.name}`);
+            return undefined;
+        }
+        const url = getBlobUrl(content, this.runtime.getSetting("OPENCHAT_IC_HOST") as string);
+        if (!url) {
+            return undefined;
+        }
+
+        const scope = this.getScope(metadata);
+        const documentId = makeDocumentUuid(`${scope.key}-${getBlobId(content) ?? url}`);
+        const registry = await this.readRegistry(scope.key);
+        const existing = registry.find((document) => document.id === documentId);
+        if (existing) {
+            return existing;
+        }
+
+        const media = await loadRemoteMedia({ id: documentId, url, title: content.name } as Media, this.maxBytes);
+        const text = extractDocumentText(media.data, mimeType, this.maxBytes).trim();
+
+        let document: OpenChatIngestedDocument;
+        const knowledge = this.getKnowledgeService();
+        if (knowledge) {
+            const result = await knowledge.addKnowledge({
+                clientDocumentId: documentId,
+                contentType: mimeType,
+                originalFilename: content.name,
+                worldId: scope.roomId,
+                roomId: scope.roomId,
+                entityId,
+                agentId: this.runtime.agentId,
+                // The knowledge plugin extracts PDFs itself from base64 content
+                content: mimeType === "application/pdf" ? Buffer.from(media.data).toString("base64") : text,
+                metadata: { source: "openchat", chatId: metadata.chatId, sharedBy: sender },
+            });
+            document = this.toRecord(
+                result.storedDocumentMemoryId ?? documentId,
+                content.name,
+                mimeType,
+                media.data.byteLength,
+                [],
+                true,
+                sender,
+            );
+        } else {
+            if (!text) {
+                this.runtime.logger?.warn?.(`[OpenChat] No text could be extracted from ${content.name}`);
+                return undefined;
+            }
+            const fragmentIds = await this.storeAsMemories(documentId, content.name, text, scope.roomId, entityId);
+            document = this.toRecord(
+                documentId,
+                content.name,
+                mimeType,
+                media.data.byteLength,
+                fragmentIds,
+                false,
+                sender,
+            );
+        }
+
+        await this.updateRegistry(scope.key, (documents) => [
+            ...documents.filter((entry) => entry.id !== document.id),
+            document,
+        ]);
+        this.runtime.logger?.info?.(
+            `[OpenChat] Ingested ${content.name} into ${scope.key} knowledge`,
+        );
+        return document;
+    }
+
+    /**
+     * Remove an ingested document by id, id prefix or file name
+     */
+    public async remove(
+        metadata: OpenChatMessageMetadata,
+        reference: string,
+    ): Promise<OpenChatIngestedDocument | undefined> {
+        const scope = this.getScope(metadata);
+        const registry = await this.readRegistry(scope.key);
+        const needle = reference.trim().toLowerCase();
+        const document =
+            registry.find((entry) => entry.id === needle || entry.name.toLowerCase() === needle) ??
+            registry.find((entry) => entry.id.startsWith(needle));
+        if (!document) {
+            return undefined;
+        }
+
+        const knowledge = this.getKnowledgeService();
+        if (document.viaKnowledgeService && knowledge?.deleteMemory) {
+            await knowledge.deleteMemory(document.id);
+        } else {
+            for (const fragmentId of document.fragmentIds) {
+                await this.runtime.deleteMemory(fragmentId);
+            }
+            await this.runtime.deleteMemory(document.id);
+        }
+
+        await this.updateRegistry(scope.key, (documents) => documents.filter((entry) => entry.id !== document.id));
+        return document;
+    }
+
+    private async storeAsMemories(
+        documentId: UUID,
+        name: string,
+        text: string,
+        roomId: UUID,
+        entityId: UUID,
+    ): Promise<UUID[]> {
+        const now = Date.now();
+        const documentMemory: Memory = {
+            id: documentId,
+            entityId,
+            agentId: this.runtime.agentId,
+            roomId,
+            content: { text, source: "openchat" },
+            metadata: {
+                type: MemoryType.DOCUMENT,
+                source: "openchat",
+                scope: this.memoryScope(),
+                timestamp: now,
+                tags: [name],
+            },
+            createdAt: now,
+        };
+        await this.runtime.createMemory(documentMemory, "documents");
+
+        const chunks = await splitChunks(text, CHUNK_SIZE, CHUNK_BLEED);
+        const fragmentIds: UUID[] = [];
+        for (const [position, chunk] of chunks.entries()) {
+            const fragmentId = makeDocumentUuid(`${documentId}-${position}`);
+            const fragment = await this.runtime.addEmbeddingToMemory({
+                id: fragmentId,
+                entityId,
+                agentId: this.runtime.agentId,
+                roomId,
+                content: { text: chunk, source: "openchat" },
+                metadata: {
+                    type: MemoryType.FRAGMENT,
+                    source: "openchat",
+                    scope: this.memoryScope(),
+                    documentId,
+                    position,
+                    timestamp: now,
+                },
+                createdAt: now,
+            });
+            await this.runtime.createMemory(fragment, "knowledge");
+            fragmentIds.push(fragmentId);
+        }
+        return fragmentIds;
+    }
+
+    private toRecord(
+        id: UUID,
+        name: string,
+        mimeType: string,
+        size: number,
+        fragmentIds: UUID[],
+        viaKnowledgeService: boolean,
+        sharedBy: string,
+    ): OpenChatIngestedDocument {
+        return { id, name, mimeType, size, fragmentIds, viaKnowledgeService, sharedBy, addedAt: Date.now() };
+    }
+
+    /**
+     * Installation-wide documents are shared across the installation's rooms
+     */
+    private memoryScope(): MemoryScope {
+        return this.scope === "installation" ? "shared" : "room";
+    }
+
+    private getKnowledgeService(): KnowledgeService | undefined {
+        const service = this.runtime.getService("knowledge") as unknown as KnowledgeService | null;
+        return typeof service?.addKnowledge === "function" ? service : undefined;
+    }
+
+    private registryKey(scopeKey: string): string {
+        return `openchat:documents:${scopeKey}`;
+    }
+
+    private async readRegistry(scopeKey: string): Promise<OpenChatIngestedDocument[]> {
+        return (await this.runtime.getCache<OpenChatIngestedDocument[]>(this.registryKey(scopeKey))) ?? [];
+    }
+
+    /**
+     * Apply a change to a scope's registry, one change per scope at a time
+     */
+    private async updateRegistry(
+        scopeKey: string,
+        change: (documents: OpenChatIngestedDocument[]) => OpenChatIngestedDocument[],
+    ): Promise<void> {
+        await this.registryUpdates.run(scopeKey, async () => {
+            const documents = await this.readRegistry(scopeKey);
+            await this.runtime.setCache(this.registryKey(scopeKey), change(documents));
+        });
+    }
+}
+
+export default OpenChatKnowledgeIngest;
@@ -0,0 +1,210 @@
+import { ChannelType, EventType, IAgentRuntime, UUID } from "@elizaos/core";
+import { OpenChatMessageMetadata } from "../types/index.js";
+import type { OpenChatCommandAccess } from "./openchatCommandAccess.js";
+import { KeyedSerialQueue } from "../utils/keyedSerialQueue.js";
+import { makeRoomUuid, makeUserUuid } from "../utils/openchatIds.js";
+
+export type OpenChatMembershipChangeKind = "joined" | "left" | "removed" | "blocked" | "role_changed";
+
+/**
+ * A change to who is in a chat, or to a member's role
+ */
+export interface OpenChatMembershipChange {
+    kind: OpenChatMembershipChangeKind;
+    userIds: string[];
+    /** New role, for role changes */
+    role?: string;
+    previousRole?: string;
+    /** Who removed, blocked or re-roled the members, when known */
+    changedBy?: string;
+}
+
+/**
+ * Membership activity per installation
+ */
+export interface OpenChatMembershipStats {
+    joined: number;
+    left: number;
+    removed: number;
+    blocked: number;
+    roleChanged: number;
+    updatedAt: number;
+}
+
+const EVENT_KINDS: Record<string, OpenChatMembershipChangeKind> = {
+    member_joined: "joined",
+    members_added: "joined",
+    participants_added: "joined",
+    member_left: "left",
+    participant_left: "left",
+    members_removed: "removed",
+    participants_removed: "removed",
+    users_blocked: "blocked",
+    role_changed: "role_changed",
+    participant_role_changed: "role_changed",
+};
+
+const STAT_FIELDS: Record<OpenChatMembershipChangeKind, keyof Omit<OpenChatMembershipStats, "updatedAt">> = {
+    joined: "joined",
+    left: "left",
+    removed: "removed",
+    blocked: "blocked",
+    role_changed: "roleChanged",
+};
+
+/**
+ * Read a membership change from a chat event, or undefined for other events
+ * Handles single-user events ({ userId }) and bulk events ({ userIds } or { members }).
+ */
+export function parseMembershipEvent(event: any): OpenChatMembershipChange | undefined {
+    const kind = EVENT_KINDS[event?.kind];
+    if (!kind) {
+        return undefined;
+    }
+    const listed = event.userIds ?? event.members ?? (event.userId !== undefined ? [event.userId] : []);
+    const userIds = (Array.isArray(listed) ? listed : [])
+        .map((entry: any) => (typeof entry === "string" ? entry : entry?.userId))
+        .filter((userId: unknown): userId is string => typeof userId === "string" && userId.length > 0);
+    if (userIds.length === 0) {
+        return undefined;
+    }
+    return {
+        kind,
+        userIds,
+        role: event.newRole ?? event.role,
+        previousRole: event.oldRole ?? event.previousRole,
+        changedBy: event.changedBy ?? event.removedBy ?? event.blockedBy ?? event.addedBy,
+    };
+}
+
+/**
+ * Keeps the runtime's room participants in line with OpenChat chat membership
+ * Departed members are removed from the chat's room and every thread room of it, role
+ * changes drop the cached role used for command access, and each change is counted per
+ * installation and emitted as ENTITY_JOINED / ENTITY_LEFT / ENTITY_UPDATED.
+ */
+export class OpenChatMembership {
+    private readonly statsUpdates = new KeyedSerialQueue();
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly commandAccess: OpenChatCommandAccess,
+    ) {}
+
+    public async apply(change: OpenChatMembershipChange, metadata: OpenChatMessageMetadata): Promise<void> {
+        const roomId = makeRoomUuid(metadata.chatKind, metadata.roomKey) as UUID;
+        for (const userId of change.userIds) {
+            const entityId = makeUserUuid(userId);
+            try {
+                switch (change.kind) {
+                    case "joined":
+                        await this.runtime.ensureConnection({
+                            entityId,
+                            roomId,
+                            userName: userId,
+                            name: userId,
+                            source: "openchat",
+                            worldId: roomId,
+                            type: metadata.chatKind === "direct" ? ChannelType.DM : ChannelType.GROUP,
+                            channelId: metadata.chatId,
+                        });
+                        break;
+                    case "left":
+                    case "removed":
+                    case "blocked":
+                        await this.removeFromChat(entityId, metadata.chatId);
+                        this.commandAccess.forgetRole(metadata.locationKey, userId);
+                        break;
+                    case "role_changed":
+                        this.commandAccess.forgetRole(metadata.locationKey, userId);
+                        break;
+                }
+            } catch (error: any) {
+                this.runtime.logger?.warn?.(
+                    `[OpenChat] Failed to apply ${change.kind} for ${userId} in ${metadata.locationKey}`,
+                    error?.message || error,
+                );
+            }
+            await this.emit(change, entityId, roomId, userId);
+        }
+
+        await this.updateStats(metadata.locationKey, change.kind, change.userIds.length);
+        this.runtime.logger?.debug?.(
+            `[OpenChat] ${change.userIds.length} member(s) ${change.kind.replace("_", " ")} in ${metadata.locationKey}`,
+        );
+    }
+
+    public async getStats(locationKey: string): Promise<OpenChatMembershipStats> {
+        const stats = await this.runtime.getCache<OpenChatMembershipStats>(this.cacheKey(locationKey));
+        return stats ?? { joined: 0, left: 0, removed: 0, blocked: 0, roleChanged: 0, updatedAt: 0 };
+    }
+
+    /**
+     * Remove an entity from every room that belongs to a chat (the chat itself and its threads)
+     */
+    private async removeFromChat(entityId: UUID, chatId: string): Promise<void> {
+        const roomIds = await this.runtime.getRoomsForParticipant(entityId);
+        const rooms = roomIds.length ? ((await this.runtime.getRoomsByIds(roomIds)) ?? []) : [];
+        for (const room of rooms) {
+            if (room.source === "openchat" && room.channelId === chatId) {
+                await this.runtime.removeParticipant(entityId, room.id as UUID);
+            }
+        }
+    }
+
+    private async emit(
+        change: OpenChatMembershipChange,
+        entityId: UUID,
+        roomId: UUID,
+        userId: string,
+    ): Promise<void> {
+        const eventType =
+            change.kind === "joined"
+                ? EventType.ENTITY_JOINED
+                : change.kind === "role_changed"
+                  ? EventType.ENTITY_UPDATED
+                  : EventType.ENTITY_LEFT;
+        try {
+            await this.runtime.emitEvent?.(eventType, {
+                runtime: this.runtime,
+                source: "openchat",
+                entityId,
+                worldId: roomId,
+                roomId,
+                metadata: {
+                    originalId: userId,
+                    username: userId,
+                    change: change.kind,
+                    role: change.role,
+                    previousRole: change.previousRole,
+                    changedBy: change.changedBy,
+                },
+            });
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(`[OpenChat] ${eventType} handler failed`, error?.message || error);
+        }
+    }
+
+    private async updateStats(
+        locationKey: string,
+        kind: OpenChatMembershipChangeKind,
+        count: number,
+    ): Promise<void> {
+        try {
+            await this.statsUpdates.run(locationKey, async () => {
+                const stats = await this.getStats(locationKey);
+                stats[STAT_FIELDS[kind]] += count;
+                stats.updatedAt = Date.now();
+                await this.runtime.setCache(this.cacheKey(locationKey), stats);
+            });
+        } catch (error: any) {
+            this.runtime.logger?.debug?.("[OpenChat] Failed to update membership stats", error?.message || error);
+        }
+    }
+
+    private cacheKey(locationKey: string): string {
+        return `openchat:membership:${locationKey}`;
+    }
+}
+
+export default OpenChatMembership;
@@ -0,0 +1,129 @@
+import { IAgentRuntime } from "@elizaos/core";
+import { Secp256k1KeyIdentity } from "@dfinity/identity-secp256k1";
+import type { OpenChatUserDirectory } from "./openchatUserDirectory.js";
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function parseList(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        return value.map((entry) => String(entry).trim()).filter(Boolean);
+    }
+    if (typeof value !== "string") {
+        return [];
+    }
+    return value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Recognises when a message addresses the bot
+ * OpenChat encodes mentions as `@UserId(<principal>)`; the bot's principal is derived from its
+ * identity key. `@username` and `@<character name>` are matched as typed, while configured
+ * aliases (OPENCHAT_BOT_ALIASES) also match as bare words.
+ */
+export class OpenChatMentionDetector {
+    private principal?: string;
+    private username?: string;
+    private readonly aliases: string[];
+    private patterns?: RegExp[];
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.principal =
+            (runtime.getSetting("OPENCHAT_BOT_USER_ID") as string | undefined)?.trim() ||
+            this.derivePrincipal(runtime.getSetting("OPENCHAT_BOT_IDENTITY_PRIVATE_KEY") as string);
+        this.username =
+            (runtime.getSetting("OPENCHAT_BOT_USERNAME") as string | undefined)?.trim().replace(/^@/, "") ||
+            undefined;
+        this.aliases = [
+            ...parseList(runtime.getSetting("OPENCHAT_BOT_ALIASES")),
+            ...parseList((runtime.character?.settings as any)?.openchat?.aliases),
+        ];
+    }
+
+    /**
+     * The bot's OpenChat user id, when the identity key could be read
+     */
+    public getBotUserId(): string | undefined {
+        return this.principal;
+    }
+
+    public isBotUser(userId: string | undefined): boolean {
+        return Boolean(userId && this.principal && userId === this.principal);
+    }
+
+    /**
+     * Look up the bot's registered username when it was not configured explicitly
+     */
+    public async resolveUsername(directory: OpenChatUserDirectory): Promise<void> {
+        if (this.username || !this.principal) {
+            return;
+        }
+        try {
+            const [profile] = await directory.lookupProfiles([this.principal]);
+            if (profile?.username) {
+                this.username = profile.username;
+                this.patterns = undefined;
+                this.runtime.logger?.debug?.(`[OpenChat] Bot username resolved as @${profile.username}`);
+            }
+        } catch (error: any) {
+            this.runtime.logger?.debug?.(
+                "[OpenChat] Unable to resolve bot username",
+                error?.message || error,
+            );
+        }
+    }
+
+    public isMention(text: string): boolean {
+        if (!text) {
+            return false;
+        }
+        return this.getPatterns().some((pattern) => pattern.test(text));
+    }
+
+    private getPatterns(): RegExp[] {
+        if (this.patterns) {
+            return this.patterns;
+        }
+
+        const patterns: RegExp[] = [];
+        if (this.principal) {
+            patterns.push(new RegExp(`@UserId\\(\\s*${escapeRegExp(this.principal)}\\s*\\)`, "i"));
+        }
+
+        const handles = [this.username, this.runtime.character?.name, this.runtime.character?.username]
+            .filter((handle): handle is string => Boolean(handle?.trim()))
+            .map((handle) => escapeRegExp(handle.trim()));
+        if (handles.length) {
+            patterns.push(new RegExp(`(^|[^\\w@])@(${handles.join("|")})(?![\\w])`, "i"));
+        }
+
+        const aliases = this.aliases.map((alias) => escapeRegExp(alias.replace(/^@/, "")));
+        if (aliases.length) {
+            patterns.push(new RegExp(`(^|[^\\w])@?(${aliases.join("|")})(?![\\w])`, "i"));
+        }
+
+        this.patterns = patterns;
+        return patterns;
+    }
+
+    private derivePrincipal(pem: string | undefined): string | undefined {
+        if (!pem) {
+            return undefined;
+        }
+        try {
+            return Secp256k1KeyIdentity.fromPem(pem.replace(/\\n/g, "\n")).getPrincipal().toText();
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                "[OpenChat] Unable to derive bot principal from identity key",
+                error?.message || error,
+            );
+            return undefined;
+        }
+    }
+}
+
+export default OpenChatMentionDetector;
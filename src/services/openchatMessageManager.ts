@@ -1,10 +1,12 @@
 import {
     ChannelType,
     Content,
+    EventType,
     HandlerCallback,
     IAgentRuntime,
     Memory,
     MemoryType,
+    MentionContext,
     UUID,
 } from "@elizaos/core";
 import {
@@ -12,20 +14,33 @@ import {
     BotChatEvent,
     MessageEvent as OCMessageEvent,
 } from "@open-ic/openchat-botclient-ts";
-import { OpenChatMessageMetadata } from "../types/index.js";
+import { OpenChatMemoryMetadata, OpenChatMessageMetadata } from "../types/index.js";
+import {
+    createOpenChatResponseCallback,
+    isQuotingEnabled,
+    sanitizeText,
+} from "./openchatResponder.js";
+import { OpenChatEngagementPolicy } from "./openchatEngagementPolicy.js";
+import { OpenChatMentionDetector } from "./openchatMentionDetector.js";
+import { OpenChatInboundMedia } from "./openchatInboundMedia.js";
+import { OpenChatKnowledgeIngest } from "./openchatKnowledgeIngest.js";
+import { OpenChatBackfill } from "./openchatBackfill.js";
+import { OpenChatThreadContext } from "./openchatThreadContext.js";
+import { OpenChatBurstCoalescer } from "./openchatBurstCoalescer.js";
+import { OpenChatMessageRevisions } from "./openchatMessageRevisions.js";
+import {
+    OpenChatReactionFeedback,
+    OpenChatReactionRecord,
+    parseReactionEvent,
+} from "./openchatReactionFeedback.js";
+import type { OpenChatOutboundQueue } from "./openchatOutboundQueue.js";
+import { LruCache } from "../utils/lruCache.js";
 import {
     makeMessageUuid,
     makeRoomUuid,
     makeUserUuid,
 } from "../utils/openchatIds.js";
 
-function sanitizeText(text?: string | null): string {
-    if (!text) {
-        return "";
-    }
-    return text.replace(/\u0000/g, "").trim();
-}
-
 function buildPlaceholderForContent(event: OCMessageEvent): string {
     const kind = event.content.kind;
     switch (kind) {
@@ -46,8 +61,100 @@ function buildPlaceholderForContent(event: OCMessageEvent): string {
     }
 }
 
+function buildMentionContext(
+    isMention: boolean,
+    isReplyToBot: boolean,
+    metadata: OpenChatMessageMetadata,
+): MentionContext {
+    return {
+        isMention,
+        isReply: isReplyToBot,
+        isThread: Boolean(metadata.threadId),
+        mentionType: isMention
+            ? "platform_mention"
+            : isReplyToBot
+              ? "reply"
+              : metadata.threadId
+                ? "thread"
+                : "none",
+    };
+}
+
+const REPLIED_SENDER_CACHE_SIZE = 500;
+const COMMAND_PATTERN = /^\s*\/\w/;
+
+type RepliedSender = { userId: string; isBot: boolean };
+
+/** An incoming message prepared for the agent, waiting to be coalesced with the sender's burst */
+interface PendingMessage {
+    event: OCMessageEvent;
+    eventIndex: number;
+    metadata: OpenChatMessageMetadata;
+    memory: Memory;
+    text: string;
+    isMention: boolean;
+    isReplyToBot: boolean;
+}
+
 export class OpenChatMessageManager {
-    constructor(private readonly runtime: IAgentRuntime) {}
+    private readonly engagementPolicy: OpenChatEngagementPolicy;
+    private readonly mentionDetector: OpenChatMentionDetector;
+    private readonly inboundMedia: OpenChatInboundMedia;
+    private readonly knowledgeIngest: OpenChatKnowledgeIngest;
+    private readonly backfill: OpenChatBackfill;
+    private readonly threadContext: OpenChatThreadContext;
+    private readonly burstCoalescer: OpenChatBurstCoalescer<PendingMessage>;
+    private readonly revisions: OpenChatMessageRevisions;
+    private readonly reactionFeedback: OpenChatReactionFeedback;
+    /** Sender of previously resolved reply targets, keyed by chat, thread and event index */
+    private readonly repliedSenders = new LruCache<string, RepliedSender | null>(REPLIED_SENDER_CACHE_SIZE);
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly outboundQueue?: OpenChatOutboundQueue,
+        canReadMessages?: (locationKey: string) => boolean,
+    ) {
+        this.engagementPolicy = new OpenChatEngagementPolicy(runtime);
+        this.mentionDetector = new OpenChatMentionDetector(runtime);
+        this.inboundMedia = new OpenChatInboundMedia(runtime);
+        this.knowledgeIngest = new OpenChatKnowledgeIngest(runtime);
+        this.backfill = new OpenChatBackfill(
+            runtime,
+            buildPlaceholderForContent,
+            this.mentionDetector,
+            canReadMessages,
+        );
+        this.threadContext = new OpenChatThreadContext(runtime, buildPlaceholderForContent, (userId) =>
+            this.mentionDetector.isBotUser(userId),
+        );
+        this.burstCoalescer = new OpenChatBurstCoalescer(runtime);
+        this.revisions = new OpenChatMessageRevisions(runtime);
+        this.reactionFeedback = new OpenChatReactionFeedback(runtime);
+    }
+
+    public getEngagementPolicy(): OpenChatEngagementPolicy {
+        return this.engagementPolicy;
+    }
+
+    public getMentionDetector(): OpenChatMentionDetector {
+        return this.mentionDetector;
+    }
+
+    public getKnowledgeIngest(): OpenChatKnowledgeIngest {
+        return this.knowledgeIngest;
+    }
+
+    public getBackfill(): OpenChatBackfill {
+        return this.backfill;
+    }
+
+    public getThreadContext(): OpenChatThreadContext {
+        return this.threadContext;
+    }
+
+    public getReactionFeedback(): OpenChatReactionFeedback {
+        return this.reactionFeedback;
+    }
 
     public async handleMessageEvent(
         botClient: BotClient,
@@ -58,13 +165,14 @@ export class OpenChatMessageManager {
         if (event.kind !== "message") {
             return;
         }
-        if (event.deleted) {
-            return;
-        }
         if (event.senderContext?.kind === "bot") {
             // Ignore messages produced by bots (including ourselves)
             return;
         }
+        if (event.deleted || event.edited) {
+            await this.handleRevision(botClient, event, metadata);
+            return;
+        }
 
         const textContent = buildPlaceholderForContent(event);
         if (!textContent) {
@@ -77,30 +185,21 @@ export class OpenChatMessageManager {
         const senderId = makeUserUuid(event.sender);
         const incomingMessageId = makeMessageUuid(`${metadata.chatId}-${metadata.messageId}`);
 
-        try {
-            await this.runtime.ensureConnection?.({
-                entityId: senderId,
-                roomId,
-                userName: event.sender,
-                name: event.sender,
-                source: "openchat",
-                worldId: roomId,
-                type: channelType,
-                channelId: metadata.chatId,
-            });
-        } catch (connectionError: any) {
-            this.runtime.logger?.warn?.(
-                "[OpenChat] ensureConnection failed",
-                connectionError?.message || connectionError,
+        // Already stored by an earlier delivery or a backfill, so the agent has seen it
+        if (await this.runtime.getMemoryById(incomingMessageId)) {
+            this.runtime.logger?.debug?.(
+                `[OpenChat] Skipping message ${metadata.messageId} in ${metadata.roomKey}: already processed`,
             );
+            return;
         }
 
-        const mentionContext = {
-            isMention: this.containsBotMention(textContent),
-            isReply: Boolean(event.repliesTo),
-            isThread: Boolean(metadata.threadId),
-            mentionType: event.repliesTo ? "reply" : metadata.threadId ? "thread" : undefined,
-        };
+        await this.ensureConnection(senderId, event.sender, roomId, channelType, metadata);
+
+        // Load earlier conversation the first time this room is seen
+        this.backfill.schedule(botClient, metadata, chatEvent.eventIndex);
+
+        const isMention = this.mentionDetector.isMention(textContent);
+        const isReplyToBot = await this.isReplyToBot(botClient, event, metadata);
 
         const memory: Memory = {
             id: incomingMessageId,
@@ -111,7 +210,7 @@ export class OpenChatMessageManager {
                 text: textContent,
                 source: "openchat",
                 channelType,
-                mentionContext,
+                mentionContext: buildMentionContext(isMention, isReplyToBot, metadata),
                 inReplyTo: event.repliesTo
                     ? makeMessageUuid(`${metadata.chatId}-${event.repliesTo.eventIndex}`)
                     : undefined,
@@ -129,98 +228,433 @@ export class OpenChatMessageManager {
             createdAt: Date.now(),
         };
 
+        // Shared documents are remembered whether or not the agent replies. Downloading and
+        // embedding can take a while, so it runs in the background like burst turns.
+        if (event.content.kind === "file_content" && this.knowledgeIngest.isAllowed(metadata)) {
+            const fileName = event.content.name;
+            void this.knowledgeIngest.ingest(event.content, metadata, event.sender, senderId).catch((error: any) => {
+                this.runtime.logger?.warn?.(`[OpenChat] Failed to ingest ${fileName}`, error?.message || error);
+            });
+        }
+
+        const pending: PendingMessage = {
+            event,
+            eventIndex: chatEvent.eventIndex,
+            metadata,
+            memory,
+            text: textContent,
+            isMention,
+            isReplyToBot,
+        };
+        const burstKey = `${metadata.roomKey}:${event.sender}`;
+        if (COMMAND_PATTERN.test(textContent) || !this.burstCoalescer.isEnabled(metadata.locationKey)) {
+            // Commands close the sender's open burst; they, and all messages when coalescing is off, run inline
+            this.burstCoalescer.flush(burstKey);
+            await this.handleTurn(botClient, [pending], channelType);
+            return;
+        }
+
+        // The notification is acknowledged now; the burst is handled once the sender goes quiet
+        void this.burstCoalescer
+            .collect(burstKey, metadata.locationKey, pending)
+            .then((burst) => (burst ? this.handleTurn(botClient, burst, channelType) : undefined))
+            .catch((error: any) => {
+                this.runtime.logger?.error?.(
+                    `[OpenChat] Failed to handle messages from ${event.sender} in ${metadata.roomKey}`,
+                    error?.message || error,
+                );
+            });
+    }
+
+    /**
+     * Hand one message, or a coalesced burst of them, to the agent as a single turn
+     */
+    private async handleTurn(
+        botClient: BotClient,
+        burst: PendingMessage[],
+        channelType: ChannelType,
+    ): Promise<void> {
+        const latest = burst[burst.length - 1];
+        const turnMemory = this.mergeBurst(burst);
+        if (burst.length > 1) {
+            try {
+                await this.revisions.recordBurst(
+                    turnMemory,
+                    burst.map((message) => message.memory.id as UUID),
+                );
+            } catch (error: any) {
+                this.runtime.logger?.debug?.(
+                    "[OpenChat] Failed to record coalesced message ids",
+                    error?.message || error,
+                );
+            }
+        }
+        const appendToThreadContext = () => {
+            for (const message of burst) {
+                this.threadContext.append(message.metadata.roomKey, message.event);
+            }
+        };
+
+        const decision = this.engagementPolicy.evaluate({
+            locationKey: latest.metadata.locationKey,
+            chatKind: latest.metadata.chatKind,
+            text: burst.map((message) => message.text).join("\n"),
+            isMention: burst.some((message) => message.isMention),
+            isReplyToBot: burst.some((message) => message.isReplyToBot),
+        });
+        if (!decision.engage) {
+            this.runtime.logger?.debug?.(
+                `[OpenChat] Not engaging with message in ${latest.metadata.locationKey}: ${decision.reason}`,
+            );
+            // Keep the message as context for later turns without running the agent
+            try {
+                await this.runtime.createMemory?.(turnMemory, "messages");
+            } catch (error: any) {
+                this.runtime.logger?.warn?.(
+                    "[OpenChat] Failed to store unengaged message",
+                    error?.message || error,
+                );
+            }
+            appendToThreadContext();
+            return;
+        }
+
+        // Media is only downloaded and described for messages the agent will act on
+        const texts: string[] = [];
+        const attachments: NonNullable<Content["attachments"]> = [];
+        for (const message of burst) {
+            const media = await this.inboundMedia.process(message.event.content);
+            texts.push(media ? media.text : (message.memory.content.text ?? ""));
+            attachments.push(...(media?.attachments ?? []));
+        }
+        turnMemory.content.text = texts.join("\n");
+        const turnMetadata = turnMemory.metadata as OpenChatMemoryMetadata | undefined;
+        if (burst.length > 1 && turnMetadata?.openchat) {
+            turnMetadata.openchat.coalescedTexts = texts;
+        }
+        if (attachments.length > 0) {
+            turnMemory.content.attachments = attachments;
+        }
+
         if (!this.runtime.messageService) {
             this.runtime.logger?.error?.("[OpenChat] messageService is not available");
             return;
         }
 
+        // Cache the thread root and earlier replies for the thread context provider
+        await this.threadContext.prepare(botClient, latest.metadata, latest.eventIndex);
+
         const callback = this.createResponseCallback(
             botClient,
-            roomId,
-            metadata,
-            incomingMessageId,
+            turnMemory.roomId,
+            latest.metadata,
+            turnMemory.id as UUID,
             channelType,
+            burst.some((message) => this.shouldReplyWithVoice(message.event)),
         );
 
-        await this.runtime.messageService.handleMessage(this.runtime, memory, callback);
+        try {
+            await this.runtime.messageService.handleMessage(this.runtime, turnMemory, callback);
+        } finally {
+            appendToThreadContext();
+        }
     }
 
-    private containsBotMention(text: string): boolean {
-        const name = this.runtime.character?.name;
-        if (!name || !text) {
-            return false;
+    /**
+     * Record a reaction someone added to or removed from a message
+     * Added reactions are emitted as REACTION_RECEIVED; with OPENCHAT_REACTION_FOLLOW_UP=true a
+     * negative reaction on one of the agent's messages is also handed to the agent.
+     */
+    public async handleReactionEvent(
+        botClient: BotClient,
+        chatEvent: BotChatEvent,
+        metadata: OpenChatMessageMetadata,
+    ): Promise<void> {
+        const reaction = parseReactionEvent(chatEvent.event);
+        if (!reaction) {
+            this.runtime.logger?.debug?.("[OpenChat] Ignoring unrecognised reaction event");
+            return;
+        }
+        if (this.mentionDetector.isBotUser(reaction.userId)) {
+            return;
+        }
+
+        const channelType = metadata.chatKind === "direct" ? ChannelType.DM : ChannelType.GROUP;
+        const roomId = makeRoomUuid(metadata.chatKind, metadata.roomKey) as UUID;
+        const senderId = makeUserUuid(reaction.userId);
+        await this.ensureConnection(senderId, reaction.userId, roomId, channelType, metadata);
+
+        let record: OpenChatReactionRecord;
+        try {
+            record = await this.reactionFeedback.record(reaction, metadata, roomId, senderId);
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Failed to record reaction on message ${reaction.messageId}`,
+                error?.message || error,
+            );
+            return;
+        }
+        if (!record.memory) {
+            return;
+        }
+
+        // Replies to a reaction are not quoted, since the event is not a message
+        const replyMetadata = { ...metadata, messageId: reaction.messageId, eventIndex: undefined };
+        const callback = this.createResponseCallback(
+            botClient,
+            roomId,
+            replyMetadata,
+            record.memory.id as UUID,
+            channelType,
+            false,
+        );
+        try {
+            await this.runtime.emitEvent?.(EventType.REACTION_RECEIVED, {
+                runtime: this.runtime,
+                message: record.memory,
+                source: "openchat",
+                callback,
+            });
+        } catch (error: any) {
+            this.runtime.logger?.warn?.("[OpenChat] REACTION_RECEIVED handler failed", error?.message || error);
+        }
+
+        if (!this.reactionFeedback.shouldFollowUp(record) || !this.runtime.messageService) {
+            return;
+        }
+        const target = await this.runtime.getMemoryById(record.memory.content.inReplyTo as UUID);
+        const followUp: Memory = {
+            ...record.memory,
+            id: makeMessageUuid(`${metadata.chatId}-${reaction.messageId}-follow-up-${Date.now()}`),
+            content: {
+                ...record.memory.content,
+                text: `[Reaction] ${reaction.reaction} on your message: "${target?.content.text ?? ""}"`,
+                channelType,
+            },
+            metadata: { ...(record.memory.metadata as OpenChatMemoryMetadata), type: MemoryType.MESSAGE },
+        };
+        try {
+            await this.runtime.messageService.handleMessage(this.runtime, followUp, callback);
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Failed to follow up on reaction to message ${reaction.messageId}`,
+                error?.message || error,
+            );
         }
-        const normalized = text.toLowerCase();
-        const mention = `@${name}`.toLowerCase();
-        return normalized.includes(mention);
     }
 
-    private createResponseCallback(
+    /**
+     * Apply an edit or deletion to the stored memory of a message
+     * With OPENCHAT_RECONSIDER_EDITS=true, a substantially edited message the agent had
+     * answered is handed to the agent again.
+     */
+    private async handleRevision(
         botClient: BotClient,
-        roomId: UUID,
+        event: OCMessageEvent,
         metadata: OpenChatMessageMetadata,
-        incomingMessageId: UUID,
-        channelType: ChannelType,
-    ): HandlerCallback {
-        return async (content: Content) => {
-            const text = sanitizeText(content.text);
-            if (!text) {
-                return [];
-            }
+    ): Promise<void> {
+        const roomId = makeRoomUuid(metadata.chatKind, metadata.roomKey) as UUID;
+        const memoryId = makeMessageUuid(`${metadata.chatId}-${metadata.messageId}`);
+        this.threadContext.invalidate(metadata.roomKey);
 
-            if (content.attachments && content.attachments.length > 0) {
-                this.runtime.logger?.warn?.(
-                    "[OpenChat] Attachments are not supported yet for OpenChat responses",
-                );
+        try {
+            if (event.deleted) {
+                await this.revisions.applyDelete(roomId, memoryId, metadata.messageId);
+                return;
             }
 
-            const message = (await botClient.createTextMessage(text)).setFinalised(true);
-            const response = await botClient.sendMessage(message);
-
-            if (response.kind !== "success") {
-                this.runtime.logger?.error?.(
-                    "[OpenChat] Failed to send response",
-                    response.message,
-                );
-                return [];
+            const edit = await this.revisions.applyEdit(
+                roomId,
+                memoryId,
+                metadata.messageId,
+                buildPlaceholderForContent(event),
+            );
+            if (!edit?.reconsider || !this.runtime.messageService) {
+                return;
             }
 
-            const responseMessageId = response.messageId.toString();
-            const memory: Memory = {
-                id: makeMessageUuid(`${metadata.chatId}-${responseMessageId}`),
-                entityId: this.runtime.agentId as UUID,
-                agentId: this.runtime.agentId,
-                roomId,
+            this.runtime.logger?.debug?.(
+                `[OpenChat] Reconsidering reply to edited message ${metadata.messageId} in ${metadata.roomKey}`,
+            );
+            const channelType = metadata.chatKind === "direct" ? ChannelType.DM : ChannelType.GROUP;
+            const revised: Memory = {
+                ...edit.memory,
+                id: makeMessageUuid(`${metadata.chatId}-${metadata.messageId}-edited-${Date.now()}`),
                 content: {
-                    ...content,
-                    text,
-                    source: "openchat",
-                    channelType,
-                    inReplyTo: incomingMessageId,
+                    ...edit.memory.content,
+                    text: `[Edited message] ${edit.memory.content.text ?? ""}`,
+                    inReplyTo: edit.memory.id,
                 },
-                metadata: {
-                    type: MemoryType.MESSAGE,
-                    source: "openchat",
-                    scope: "room",
-                    openchat: {
-                        ...metadata,
-                        messageId: responseMessageId,
-                    },
-                } as any,
-                embedding: [],
                 createdAt: Date.now(),
             };
+            const callback = this.createResponseCallback(
+                botClient,
+                roomId,
+                metadata,
+                revised.id as UUID,
+                channelType,
+                false,
+            );
+            await this.runtime.messageService.handleMessage(this.runtime, revised, callback);
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Failed to apply ${event.deleted ? "deletion" : "edit"} of message ${metadata.messageId}`,
+                error?.message || error,
+            );
+        }
+    }
 
-            try {
-                await this.runtime.createMemory?.(memory, "messages");
-            } catch (error: any) {
-                this.runtime.logger?.error?.(
-                    "[OpenChat] Failed to persist response memory",
-                    error?.message || error,
-                );
-            }
+    private async ensureConnection(
+        entityId: UUID,
+        userName: string,
+        roomId: UUID,
+        channelType: ChannelType,
+        metadata: OpenChatMessageMetadata,
+    ): Promise<void> {
+        try {
+            await this.runtime.ensureConnection?.({
+                entityId,
+                roomId,
+                userName,
+                name: userName,
+                source: "openchat",
+                worldId: roomId,
+                type: channelType,
+                channelId: metadata.chatId,
+            });
+        } catch (connectionError: any) {
+            this.runtime.logger?.warn?.(
+                "[OpenChat] ensureConnection failed",
+                connectionError?.message || connectionError,
+            );
+        }
+    }
 
-            return [memory];
+    /**
+     * Combine a burst into one memory for the latest message, recording every message id
+     */
+    private mergeBurst(burst: PendingMessage[]): Memory {
+        const latest = burst[burst.length - 1];
+        if (burst.length === 1) {
+            return latest.memory;
+        }
+        const metadata: OpenChatMemoryMetadata = {
+            ...(latest.memory.metadata as OpenChatMemoryMetadata),
+            openchat: {
+                ...latest.metadata,
+                sender: latest.event.sender,
+                coalescedMessageIds: burst.map((message) => message.metadata.messageId),
+                coalescedTexts: burst.map((message) => message.memory.content.text ?? ""),
+            },
         };
+        return {
+            ...latest.memory,
+            content: {
+                ...latest.memory.content,
+                text: burst.map((message) => message.memory.content.text).join("\n"),
+                mentionContext: buildMentionContext(
+                    burst.some((message) => message.isMention),
+                    burst.some((message) => message.isReplyToBot),
+                    latest.metadata,
+                ),
+                inReplyTo: burst.find((message) => message.memory.content.inReplyTo)?.memory.content.inReplyTo,
+            },
+            metadata,
+        };
+    }
+
+    /**
+     * Whether the message replies to one of the bot's own messages
+     */
+    private async isReplyToBot(
+        botClient: BotClient,
+        event: OCMessageEvent,
+        metadata: OpenChatMessageMetadata,
+    ): Promise<boolean> {
+        const eventIndex = event.repliesTo?.eventIndex;
+        if (eventIndex === undefined) {
+            return false;
+        }
+
+        const cacheKey = `${metadata.chatId}:${metadata.threadId ?? ""}:${eventIndex}`;
+        let sender = this.repliedSenders.get(cacheKey);
+        if (sender === undefined) {
+            sender = await this.fetchRepliedSender(botClient, eventIndex, metadata);
+            this.repliedSenders.set(cacheKey, sender);
+        }
+        if (!sender) {
+            return false;
+        }
+
+        // Without a known principal, fall back to treating any bot-authored message as ours
+        return this.mentionDetector.getBotUserId()
+            ? this.mentionDetector.isBotUser(sender.userId)
+            : sender.isBot;
+    }
+
+    private async fetchRepliedSender(
+        botClient: BotClient,
+        eventIndex: number,
+        metadata: OpenChatMessageMetadata,
+    ): Promise<RepliedSender | null> {
+        try {
+            const response = await botClient.chatEvents(
+                { kind: "chat_events_by_index", eventIndexes: [eventIndex] },
+                metadata.threadId,
+            );
+            if (response.kind !== "success") {
+                return null;
+            }
+            const replied = response.events.find((wrapper) => wrapper.event.kind === "message");
+            if (replied?.event.kind !== "message") {
+                return null;
+            }
+            return {
+                userId: replied.event.sender,
+                isBot: replied.event.senderContext?.kind === "bot",
+            };
+        } catch (error: any) {
+            this.runtime.logger?.debug?.(
+                "[OpenChat] Unable to resolve replied message",
+                error?.message || error,
+            );
+            return null;
+        }
+    }
+
+    private createResponseCallback(
+        botClient: BotClient,
+        roomId: UUID,
+        metadata: OpenChatMessageMetadata,
+        incomingMessageId: UUID,
+        channelType: ChannelType,
+        voiceReply: boolean,
+    ): HandlerCallback {
+        return createOpenChatResponseCallback(
+            this.runtime,
+            botClient,
+            {
+                roomId,
+                metadata,
+                incomingMessageId,
+                channelType,
+            },
+            {
+                voiceReply,
+                quoteReplies: isQuotingEnabled(this.runtime, metadata),
+                outboundQueue: this.outboundQueue,
+            },
+        );
+    }
+
+    /**
+     * OPENCHAT_VOICE_REPLIES: "off" (default), "voice" to answer voice notes with speech, or "always"
+     */
+    private shouldReplyWithVoice(event: OCMessageEvent): boolean {
+        const mode = ((this.runtime.getSetting("OPENCHAT_VOICE_REPLIES") as string) || "off").toLowerCase();
+        if (mode === "always") {
+            return true;
+        }
+        return mode === "voice" && event.content.kind === "audio_content";
     }
 }
@@ -0,0 +1,250 @@
+import { IAgentRuntime, Memory, MemoryType, UUID } from "@elizaos/core";
+import { OpenChatMemoryDetails, OpenChatMemoryMetadata } from "../types/index.js";
+
+const RECENT_MEMORY_SCAN = 200;
+const DEFAULT_RECONSIDER_THRESHOLD = 0.5;
+const TOMBSTONE_TEXT = "[deleted message]";
+
+/**
+ * What happens to the memory of a deleted message
+ * - remove: delete it (default)
+ * - tombstone: keep the memory but replace its content with a placeholder
+ */
+export type OpenChatDeletedMessageMode = "remove" | "tombstone";
+
+export interface OpenChatEditResult {
+    memory: Memory;
+    previousText: string;
+    /** The edit changed the message substantially and the agent had answered it */
+    reconsider: boolean;
+}
+
+function metadataOf(memory: Memory): OpenChatMemoryMetadata | undefined {
+    return memory.metadata as OpenChatMemoryMetadata | undefined;
+}
+
+function openchatMetadataOf(memory: Memory): OpenChatMemoryDetails {
+    return metadataOf(memory)?.openchat ?? {};
+}
+
+/**
+ * Share of distinct words that differ between two versions of a message (0-1)
+ */
+function changeRatio(before: string, after: string): number {
+    const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(Boolean));
+    const previous = words(before);
+    const next = words(after);
+    const union = new Set([...previous, ...next]);
+    if (union.size === 0) {
+        return 0;
+    }
+    const shared = [...previous].filter((word) => next.has(word)).length;
+    return 1 - shared / union.size;
+}
+
+/**
+ * Applies OpenChat message edits and deletions to stored memories
+ * A message is found by its own memory or, when it was coalesced into a burst, by the burst
+ * memory that lists it in `openchat.coalescedMessageIds`. Edits replace the text in place;
+ * OPENCHAT_EDIT_HISTORY=true keeps earlier versions in the memory metadata.
+ */
+export class OpenChatMessageRevisions {
+    private readonly deletedMode: OpenChatDeletedMessageMode;
+    private readonly keepHistory: boolean;
+    private readonly reconsiderEdits: boolean;
+    private readonly reconsiderThreshold: number;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.deletedMode =
+            runtime.getSetting("OPENCHAT_DELETED_MESSAGES") === "tombstone" ? "tombstone" : "remove";
+        this.keepHistory = runtime.getSetting("OPENCHAT_EDIT_HISTORY") === "true";
+        this.reconsiderEdits = runtime.getSetting("OPENCHAT_RECONSIDER_EDITS") === "true";
+        const threshold = parseFloat((runtime.getSetting("OPENCHAT_RECONSIDER_EDIT_THRESHOLD") as string) || "");
+        this.reconsiderThreshold =
+            Number.isFinite(threshold) && threshold >= 0 && threshold <= 1 ? threshold : DEFAULT_RECONSIDER_THRESHOLD;
+    }
+
+    /**
+     * Remember which memory holds each message of a coalesced burst, so revisions of the
+     * earlier messages find it directly
+     */
+    public async recordBurst(memory: Memory, memoryIds: UUID[]): Promise<void> {
+        for (const memoryId of memoryIds) {
+            if (memoryId !== memory.id) {
+                await this.runtime.setCache(this.burstKey(memoryId), memory.id);
+            }
+        }
+    }
+
+    /**
+     * Memory holding a message: its own, or the burst it was coalesced into
+     */
+    public async findMemory(roomId: UUID, memoryId: UUID, messageId: string): Promise<Memory | null> {
+        const own = await this.runtime.getMemoryById(memoryId);
+        if (own) {
+            return own;
+        }
+        try {
+            const burstId = await this.runtime.getCache<UUID>(this.burstKey(memoryId));
+            const burst = burstId ? await this.runtime.getMemoryById(burstId) : null;
+            if (burst) {
+                return burst;
+            }
+            // Fall back to scanning when the burst lookup was never recorded
+            const recent = await this.runtime.getMemories({
+                roomId,
+                tableName: "messages",
+                count: RECENT_MEMORY_SCAN,
+            });
+            return (
+                recent.find((memory) => openchatMetadataOf(memory).coalescedMessageIds?.includes(messageId)) ??
+                null
+            );
+        } catch (error: any) {
+            this.runtime.logger?.debug?.(
+                "[OpenChat] Unable to search memories for a revised message",
+                error?.message || error,
+            );
+            return null;
+        }
+    }
+
+    /**
+     * Remove or tombstone a deleted message
+     * @returns Whether a memory was changed
+     */
+    public async applyDelete(roomId: UUID, memoryId: UUID, messageId: string): Promise<boolean> {
+        const memory = await this.findMemory(roomId, memoryId, messageId);
+        if (!memory?.id) {
+            return false;
+        }
+
+        const openchat = openchatMetadataOf(memory);
+        const parts = this.getParts(memory);
+        const remaining = parts.filter((part) => part.messageId !== messageId);
+        if (parts.length > 1 && remaining.length > 0) {
+            // Only drop this message's part of a coalesced burst
+            await this.runtime.updateMemory({
+                id: memory.id,
+                content: { ...memory.content, text: remaining.map((part) => part.text).join("\n") },
+                metadata: this.withOpenChat(memory, {
+                    ...openchat,
+                    coalescedMessageIds: remaining.map((part) => part.messageId),
+                    coalescedTexts: remaining.map((part) => part.text),
+                    editHistory: undefined,
+                }),
+            });
+            return true;
+        }
+
+        if (this.deletedMode === "remove") {
+            await this.runtime.deleteMemory(memory.id);
+        } else {
+            await this.runtime.updateMemory({
+                id: memory.id,
+                content: { ...memory.content, text: TOMBSTONE_TEXT, attachments: undefined },
+                metadata: this.withOpenChat(memory, {
+                    deleted: true,
+                    coalescedTexts: undefined,
+                    editHistory: undefined,
+                }),
+            });
+        }
+        this.runtime.logger?.debug?.(`[OpenChat] Applied deletion of message ${messageId} (${this.deletedMode})`);
+        return true;
+    }
+
+    /**
+     * Replace a message's text with its edited version
+     * @returns The updated memory, or undefined when the message was never stored
+     */
+    public async applyEdit(
+        roomId: UUID,
+        memoryId: UUID,
+        messageId: string,
+        text: string,
+    ): Promise<OpenChatEditResult | undefined> {
+        const memory = await this.findMemory(roomId, memoryId, messageId);
+        if (!memory?.id) {
+            return undefined;
+        }
+
+        const openchat = openchatMetadataOf(memory);
+        const parts = this.getParts(memory);
+        const previousText = parts.find((part) => part.messageId === messageId)?.text ?? memory.content.text ?? "";
+        if (previousText === text) {
+            return undefined;
+        }
+
+        const revisedParts = parts.map((part) => (part.messageId === messageId ? { ...part, text } : part));
+        const revisedText = parts.length > 1 ? revisedParts.map((part) => part.text).join("\n") : text;
+        const now = Date.now();
+        const metadata: OpenChatMemoryDetails = {
+            ...openchat,
+            editedAt: now,
+            editHistory: this.keepHistory
+                ? [...(openchat.editHistory ?? []), { text: memory.content.text ?? "", replacedAt: now }]
+                : undefined,
+        };
+        if (parts.length > 1) {
+            metadata.coalescedTexts = revisedParts.map((part) => part.text);
+        }
+
+        const updated: Memory = {
+            ...memory,
+            content: { ...memory.content, text: revisedText },
+            metadata: this.withOpenChat(memory, metadata),
+        };
+        await this.runtime.updateMemory({
+            id: memory.id,
+            content: updated.content,
+            metadata: updated.metadata,
+        });
+
+        const reconsider =
+            this.reconsiderEdits &&
+            changeRatio(previousText, text) >= this.reconsiderThreshold &&
+            (await this.wasAnswered(roomId, memory.id));
+        return { memory: updated, previousText, reconsider };
+    }
+
+    /**
+     * Whether one of the agent's stored responses replies to the memory
+     */
+    private async wasAnswered(roomId: UUID, memoryId: UUID): Promise<boolean> {
+        try {
+            const recent = await this.runtime.getMemories({
+                roomId,
+                tableName: "messages",
+                count: RECENT_MEMORY_SCAN,
+            });
+            return recent.some(
+                (memory) => memory.entityId === this.runtime.agentId && memory.content.inReplyTo === memoryId,
+            );
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Text of each message in the memory, in order
+     */
+    private getParts(memory: Memory): Array<{ messageId: string; text: string }> {
+        const { coalescedMessageIds, coalescedTexts, messageId } = openchatMetadataOf(memory);
+        if (coalescedMessageIds?.length && coalescedTexts?.length === coalescedMessageIds.length) {
+            return coalescedMessageIds.map((id, index) => ({ messageId: id, text: coalescedTexts[index] }));
+        }
+        return [{ messageId: messageId ?? "", text: memory.content.text ?? "" }];
+    }
+
+    private burstKey(memoryId: UUID): string {
+        return `openchat:burst-member:${memoryId}`;
+    }
+
+    private withOpenChat(memory: Memory, openchat: OpenChatMemoryDetails): OpenChatMemoryMetadata {
+        const metadata = metadataOf(memory);
+        return { type: MemoryType.CUSTOM, ...metadata, openchat: { ...metadata?.openchat, ...openchat } };
+    }
+}
+
+export default OpenChatMessageRevisions;
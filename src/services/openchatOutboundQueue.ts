@@ -0,0 +1,271 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { IAgentRuntime } from "@elizaos/core";
+import { BotClient } from "@open-ic/openchat-botclient-ts";
+import { LruCache } from "../utils/lruCache.js";
+import { TokenBucket } from "../utils/tokenBucket.js";
+
+type SendResult = Awaited<ReturnType<BotClient["sendMessage"]>>;
+
+const DEFAULT_CHAT_RATE_PER_MINUTE = 20;
+const DEFAULT_GLOBAL_RATE_PER_MINUTE = 120;
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_BASE_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+const CHAT_BURST = 5;
+const GLOBAL_BURST = 20;
+const STATUS_CACHE_SIZE = 500;
+const CHAT_BUCKET_CACHE_SIZE = 1000;
+
+export type OpenChatDeliveryState = "queued" | "sending" | "retrying" | "sent" | "failed";
+
+/**
+ * Delivery progress of one outbound message
+ */
+export interface OpenChatDeliveryStatus {
+    id: string;
+    chatKey: string;
+    label: string;
+    state: OpenChatDeliveryState;
+    attempts: number;
+    /** OpenChat message id once sent */
+    messageId?: string;
+    error?: string;
+    queuedAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Counts the messages delivered while running one piece of work (see track)
+ */
+export interface OpenChatSendTracker {
+    sent: number;
+}
+
+/**
+ * Handle for a queued message
+ * `done` resolves with the final send result; it rejects only when every attempt threw.
+ */
+export interface OpenChatOutboundDelivery {
+    id: string;
+    done: Promise<SendResult>;
+}
+
+function readPositiveInt(runtime: IAgentRuntime, key: string, fallback: number): number {
+    const configured = parseInt((runtime.getSetting(key) as string) || "", 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Shape shared by error responses and thrown errors
+ */
+interface SendFailure {
+    kind?: unknown;
+    code?: unknown;
+    message?: unknown;
+    cause?: { code?: unknown };
+}
+
+/**
+ * Network errors raised before a request reached OpenChat, so it cannot have been delivered
+ */
+const UNSENT_ERROR_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN", "ENETUNREACH", "EHOSTUNREACH"];
+
+function asFailure(failure: unknown): SendFailure {
+    return failure && typeof failure === "object" ? (failure as SendFailure) : {};
+}
+
+/**
+ * Whether a failed send is safe and worth retrying
+ * Only failures where OpenChat cannot have accepted the message are retried: throttling,
+ * unavailable/overloaded responses, and connection errors raised before the request went
+ * out. Timeouts and other thrown errors may follow a delivered send, so retrying them
+ * could post the message twice.
+ */
+function isTransientFailure(failure: unknown): boolean {
+    const { kind, code, message, cause } = asFailure(failure);
+    if (kind !== "error") {
+        const errorCode = String(code ?? cause?.code ?? "");
+        return UNSENT_ERROR_CODES.includes(errorCode);
+    }
+    const status = Number(code);
+    if (status === 429 || status === 502 || status === 503) {
+        return true;
+    }
+    return /rate limit|throttl|unavailable|overloaded/i.test(String(message ?? ""));
+}
+
+function describeFailure(failure: unknown): string {
+    if (failure && typeof failure === "object") {
+        const { message, code } = asFailure(failure);
+        return String(message ?? code ?? "unknown error");
+    }
+    return String(failure);
+}
+
+/**
+ * Central queue for every message the bot sends
+ * Messages to the same chat are delivered one at a time in order, subject to per-chat and
+ * global token buckets, and failures that cannot have delivered the message are retried
+ * with exponential backoff.
+ */
+export class OpenChatOutboundQueue {
+    private readonly chatTails = new Map<string, Promise<unknown>>();
+    private readonly chatBuckets = new LruCache<string, TokenBucket>(CHAT_BUCKET_CACHE_SIZE);
+    private readonly globalBucket: TokenBucket;
+    private readonly statuses = new LruCache<string, OpenChatDeliveryStatus>(STATUS_CACHE_SIZE);
+    private readonly trackers = new AsyncLocalStorage<OpenChatSendTracker>();
+    private readonly chatRate: number;
+    private readonly maxRetries: number;
+    private readonly retryBaseMs: number;
+    private sequence = 0;
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.chatRate = readPositiveInt(runtime, "OPENCHAT_OUTBOUND_CHAT_RATE", DEFAULT_CHAT_RATE_PER_MINUTE);
+        const globalRate = readPositiveInt(runtime, "OPENCHAT_OUTBOUND_GLOBAL_RATE", DEFAULT_GLOBAL_RATE_PER_MINUTE);
+        this.globalBucket = new TokenBucket(Math.min(GLOBAL_BURST, globalRate), globalRate);
+        const retries = parseInt((runtime.getSetting("OPENCHAT_OUTBOUND_MAX_RETRIES") as string) || "", 10);
+        this.maxRetries = Number.isFinite(retries) && retries >= 0 ? retries : DEFAULT_MAX_RETRIES;
+        this.retryBaseMs = readPositiveInt(runtime, "OPENCHAT_OUTBOUND_RETRY_BASE_MS", DEFAULT_RETRY_BASE_MS);
+    }
+
+    /**
+     * Queue a send and wait for its final result
+     * @param chatKey - Chat the message goes to; sends are serialized per key
+     * @param label - Short description for logs and delivery status
+     * @param send - Performs one attempt; called again for each retry
+     */
+    public send(chatKey: string, label: string, send: () => Promise<SendResult>): Promise<SendResult> {
+        return this.enqueue(chatKey, label, send).done;
+    }
+
+    /**
+     * Run work and count every message it queues that is delivered, e.g. to learn whether
+     * a failed notification already produced a reply
+     */
+    public track<T>(tracker: OpenChatSendTracker, run: () => Promise<T>): Promise<T> {
+        return this.trackers.run(tracker, run);
+    }
+
+    /**
+     * Queue a send without waiting, returning an id for getStatus
+     */
+    public enqueue(chatKey: string, label: string, send: () => Promise<SendResult>): OpenChatOutboundDelivery {
+        const now = Date.now();
+        const status: OpenChatDeliveryStatus = {
+            id: `${now.toString(36)}-${(++this.sequence).toString(36)}`,
+            chatKey,
+            label,
+            state: "queued",
+            attempts: 0,
+            queuedAt: now,
+            updatedAt: now,
+        };
+        this.statuses.set(status.id, status);
+
+        const tracker = this.trackers.getStore();
+        const previous = this.chatTails.get(chatKey) ?? Promise.resolve();
+        const done = previous.then(() => this.deliver(status, send, tracker));
+        const tail = done.catch(() => undefined);
+        this.chatTails.set(chatKey, tail);
+        void tail.then(() => {
+            if (this.chatTails.get(chatKey) === tail) {
+                this.chatTails.delete(chatKey);
+            }
+        });
+        return { id: status.id, done };
+    }
+
+    public getStatus(id: string): OpenChatDeliveryStatus | undefined {
+        const status = this.statuses.get(id);
+        return status && { ...status };
+    }
+
+    /**
+     * Number of chats with messages waiting or in flight
+     */
+    public get activeChats(): number {
+        return this.chatTails.size;
+    }
+
+    private async deliver(
+        status: OpenChatDeliveryStatus,
+        send: () => Promise<SendResult>,
+        tracker?: OpenChatSendTracker,
+    ): Promise<SendResult> {
+        let lastFailure: unknown;
+        for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+            if (attempt > 0) {
+                const delay = Math.min(MAX_RETRY_DELAY_MS, this.retryBaseMs * 2 ** (attempt - 1));
+                // Jitter keeps retries from several chats from landing together
+                await sleep(delay / 2 + Math.random() * (delay / 2));
+            }
+            await this.acquire(status.chatKey);
+
+            this.update(status, { state: "sending", attempts: attempt + 1 });
+            try {
+                const response = await send();
+                if (response.kind === "success") {
+                    this.update(status, { state: "sent", messageId: response.messageId.toString(), error: undefined });
+                    if (tracker) {
+                        tracker.sent++;
+                    }
+                    return response;
+                }
+                lastFailure = response;
+            } catch (error: any) {
+                lastFailure = error;
+            }
+
+            if (!isTransientFailure(lastFailure)) {
+                break;
+            }
+            if (attempt < this.maxRetries) {
+                this.update(status, { state: "retrying", error: describeFailure(lastFailure) });
+                this.runtime.logger?.debug?.(
+                    `[OpenChat] Retrying ${status.label} to ${status.chatKey} (attempt ${attempt + 1} failed)`,
+                    describeFailure(lastFailure),
+                );
+            }
+        }
+
+        this.update(status, { state: "failed", error: describeFailure(lastFailure) });
+        this.runtime.logger?.warn?.(
+            `[OpenChat] Giving up on ${status.label} to ${status.chatKey} after ${status.attempts} attempt(s)`,
+            describeFailure(lastFailure),
+        );
+        if (asFailure(lastFailure).kind === "error") {
+            return lastFailure as SendResult;
+        }
+        throw lastFailure;
+    }
+
+    /**
+     * Wait until both the chat's and the global bucket allow another message
+     */
+    private async acquire(chatKey: string): Promise<void> {
+        let bucket = this.chatBuckets.get(chatKey);
+        if (!bucket) {
+            bucket = new TokenBucket(Math.min(CHAT_BURST, this.chatRate), this.chatRate);
+            this.chatBuckets.set(chatKey, bucket);
+        }
+        for (;;) {
+            const wait = Math.max(bucket.waitTime(), this.globalBucket.waitTime());
+            if (wait === 0) {
+                bucket.tryTake();
+                this.globalBucket.tryTake();
+                return;
+            }
+            await sleep(wait);
+        }
+    }
+
+    private update(status: OpenChatDeliveryStatus, changes: Partial<OpenChatDeliveryStatus>): void {
+        Object.assign(status, changes, { updatedAt: Date.now() });
+    }
+}
+
+export default OpenChatOutboundQueue;
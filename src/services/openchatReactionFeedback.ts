@@ -0,0 +1,211 @@
+import { IAgentRuntime, Memory, MemoryType, UUID } from "@elizaos/core";
+import { OpenChatMemoryDetails, OpenChatMemoryMetadata, OpenChatMessageMetadata } from "../types/index.js";
+import { KeyedSerialQueue } from "../utils/keyedSerialQueue.js";
+import { makeMessageUuid } from "../utils/openchatIds.js";
+
+const DEFAULT_POSITIVE_REACTIONS = ["👍", "❤️", "🎉", "🙏"];
+const DEFAULT_NEGATIVE_REACTIONS = ["👎"];
+const REACTION_TABLE = "reactions";
+const REACTION_EVENT_KINDS = ["reaction_added", "reaction_removed", "message_reaction"];
+
+export type OpenChatReactionSentiment = "positive" | "negative" | "neutral";
+
+/**
+ * A reaction added to or removed from a message
+ */
+export interface OpenChatReactionEvent {
+    messageId: string;
+    reaction: string;
+    userId: string;
+    added: boolean;
+}
+
+/**
+ * Thumbs up/down style feedback on the agent's own messages in one installation
+ */
+export interface OpenChatReactionStats {
+    positive: number;
+    negative: number;
+    updatedAt: number;
+}
+
+/**
+ * Metadata of a stored reaction, linked to the reacted message by `openchat.messageId`
+ */
+export interface OpenChatReactionMetadata extends OpenChatMemoryMetadata {
+    openchat: OpenChatMemoryDetails & {
+        reaction: string;
+        sentiment: OpenChatReactionSentiment;
+    };
+}
+
+export interface OpenChatReactionRecord {
+    /** Memory of the reaction (absent once a reaction is removed) */
+    memory?: Memory;
+    sentiment: OpenChatReactionSentiment;
+    /** The reacted message was sent by the agent */
+    onAgentMessage: boolean;
+}
+
+function parseList(value: unknown, fallback: string[]): string[] {
+    if (typeof value !== "string" || !value.trim()) {
+        return fallback;
+    }
+    return value
+        .split(",")
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Whether a chat event is a reaction change: `reaction_added` / `reaction_removed`, or
+ * `message_reaction` with an `added` flag
+ */
+export function isReactionEvent(event: any): boolean {
+    return REACTION_EVENT_KINDS.includes(event?.kind);
+}
+
+/**
+ * Read a reaction from a chat event, or undefined when it is not a complete reaction event
+ */
+export function parseReactionEvent(event: any): OpenChatReactionEvent | undefined {
+    if (!isReactionEvent(event)) {
+        return undefined;
+    }
+    const kind = event.kind;
+    const messageId = event.messageId ?? event.message_id;
+    const reaction = event.reaction;
+    const userId = event.userId ?? event.addedBy ?? event.removedBy ?? event.updatedBy;
+    if (messageId === undefined || typeof reaction !== "string" || typeof userId !== "string") {
+        return undefined;
+    }
+    return {
+        messageId: messageId.toString(),
+        reaction,
+        userId,
+        added: kind === "message_reaction" ? event.added !== false : kind === "reaction_added",
+    };
+}
+
+/**
+ * Stores reactions as lightweight memories linked to the reacted message and keeps
+ * per-installation feedback counts for reactions on the agent's own messages
+ * Which emoji count as positive or negative comes from OPENCHAT_POSITIVE_REACTIONS and
+ * OPENCHAT_NEGATIVE_REACTIONS.
+ */
+export class OpenChatReactionFeedback {
+    private readonly positive: string[];
+    private readonly negative: string[];
+    private readonly storeMemories: boolean;
+    private readonly followUp: boolean;
+    private readonly statsUpdates = new KeyedSerialQueue();
+
+    constructor(private readonly runtime: IAgentRuntime) {
+        this.positive = parseList(runtime.getSetting("OPENCHAT_POSITIVE_REACTIONS"), DEFAULT_POSITIVE_REACTIONS);
+        this.negative = parseList(runtime.getSetting("OPENCHAT_NEGATIVE_REACTIONS"), DEFAULT_NEGATIVE_REACTIONS);
+        this.storeMemories = runtime.getSetting("OPENCHAT_REACTION_MEMORIES") !== "false";
+        this.followUp = runtime.getSetting("OPENCHAT_REACTION_FOLLOW_UP") === "true";
+    }
+
+    public classify(reaction: string): OpenChatReactionSentiment {
+        if (this.negative.includes(reaction)) {
+            return "negative";
+        }
+        return this.positive.includes(reaction) ? "positive" : "neutral";
+    }
+
+    /**
+     * Whether negative reactions on the agent's messages should be handed to the agent
+     */
+    public shouldFollowUp(record: OpenChatReactionRecord): boolean {
+        return this.followUp && record.onAgentMessage && record.sentiment === "negative" && Boolean(record.memory);
+    }
+
+    /**
+     * Store or remove a reaction and update the feedback counts
+     */
+    public async record(
+        reaction: OpenChatReactionEvent,
+        metadata: OpenChatMessageMetadata,
+        roomId: UUID,
+        entityId: UUID,
+    ): Promise<OpenChatReactionRecord> {
+        const targetId = makeMessageUuid(`${metadata.chatId}-${reaction.messageId}`);
+        const target = await this.runtime.getMemoryById(targetId);
+        const onAgentMessage = target?.entityId === this.runtime.agentId;
+        const sentiment = this.classify(reaction.reaction);
+        const memoryId = makeMessageUuid(
+            `${metadata.chatId}-${reaction.messageId}-reaction-${reaction.userId}-${reaction.reaction}`,
+        );
+
+        if (onAgentMessage && sentiment !== "neutral") {
+            await this.updateStats(metadata.locationKey, sentiment, reaction.added ? 1 : -1);
+        }
+
+        if (!reaction.added) {
+            if (this.storeMemories) {
+                await this.runtime.deleteMemory(memoryId);
+            }
+            return { sentiment, onAgentMessage };
+        }
+
+        const memoryMetadata: OpenChatReactionMetadata = {
+            type: MemoryType.CUSTOM,
+            source: "openchat",
+            scope: "room",
+            openchat: {
+                ...metadata,
+                messageId: reaction.messageId,
+                reaction: reaction.reaction,
+                sentiment,
+                sender: reaction.userId,
+            },
+        };
+        const memory: Memory = {
+            id: memoryId,
+            entityId,
+            agentId: this.runtime.agentId,
+            roomId,
+            content: {
+                text: `Reacted ${reaction.reaction} to ${onAgentMessage ? "your message" : "a message"}`,
+                source: "openchat",
+                inReplyTo: targetId,
+            },
+            metadata: memoryMetadata,
+            createdAt: Date.now(),
+        };
+        if (this.storeMemories) {
+            await this.runtime.createMemory(memory, REACTION_TABLE);
+        }
+        if (onAgentMessage && sentiment === "negative") {
+            this.runtime.logger?.info?.(
+                `[OpenChat] Negative feedback ${reaction.reaction} on agent message ${reaction.messageId} in ${metadata.locationKey}`,
+            );
+        }
+        return { memory, sentiment, onAgentMessage };
+    }
+
+    public async getStats(locationKey: string): Promise<OpenChatReactionStats> {
+        const stats = await this.runtime.getCache<OpenChatReactionStats>(this.cacheKey(locationKey));
+        return stats ?? { positive: 0, negative: 0, updatedAt: 0 };
+    }
+
+    private async updateStats(
+        locationKey: string,
+        sentiment: Exclude<OpenChatReactionSentiment, "neutral">,
+        delta: number,
+    ): Promise<void> {
+        await this.statsUpdates.run(locationKey, async () => {
+            const stats = await this.getStats(locationKey);
+            stats[sentiment] = Math.max(0, stats[sentiment] + delta);
+            stats.updatedAt = Date.now();
+            await this.runtime.setCache(this.cacheKey(locationKey), stats);
+        });
+    }
+
+    private cacheKey(locationKey: string): string {
+        return `openchat:reaction-feedback:${locationKey}`;
+    }
+}
+
+export default OpenChatReactionFeedback;
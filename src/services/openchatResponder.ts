@@ -0,0 +1,503 @@
+import {
+    ChannelType,
+    Content,
+    HandlerCallback,
+    ContentType,
+    IAgentRuntime,
+    Media,
+    Memory,
+    MemoryType,
+    ModelType,
+    UUID,
+} from "@elizaos/core";
+import { BotClient } from "@open-ic/openchat-botclient-ts";
+import { OpenChatMessageMetadata } from "../types/index.js";
+import type { OpenChatOutboundQueue } from "./openchatOutboundQueue.js";
+import { OPENCHAT_MAX_TEXT_LENGTH, splitMessage } from "../utils/messageSplitter.js";
+import { makeMessageUuid } from "../utils/openchatIds.js";
+import {
+    DEFAULT_MAX_ATTACHMENT_BYTES,
+    LoadedMedia,
+    loadMedia,
+    sniffMimeType,
+} from "../utils/openchatMedia.js";
+
+/**
+ * Where a response is delivered and how it links back to the triggering message
+ */
+export interface OpenChatResponseTarget {
+    roomId: UUID;
+    metadata: OpenChatMessageMetadata;
+    incomingMessageId: UUID;
+    channelType: ChannelType;
+}
+
+/**
+ * A pending placeholder message the first text response should replace
+ */
+export interface OpenChatResponsePlaceholder {
+    readonly isFinalised: boolean;
+    finalise(text: string): ReturnType<BotClient["sendMessage"]>;
+}
+
+export interface OpenChatResponderOptions {
+    /**
+     * Installation-scoped client used for attachments and follow-up messages
+     * Command clients only hold the command's permissions and a single message id.
+     */
+    installationClient?: BotClient;
+    placeholder?: OpenChatResponsePlaceholder;
+    /** Also deliver text responses as a synthesized voice note */
+    voiceReply?: boolean;
+    /** Quote the triggering message in the first response (see isQuotingEnabled) */
+    quoteReplies?: boolean;
+    /** Deliver through the service's outbound queue (ordering, rate limits and retries) */
+    outboundQueue?: OpenChatOutboundQueue;
+}
+
+/**
+ * Thread and quoted-reply placement for an outgoing message
+ */
+export interface OpenChatReplyTarget {
+    threadId?: number;
+    /** Event index of the message to quote */
+    repliesTo?: number;
+}
+
+const MAX_CAPTION_LENGTH = 1000;
+
+type SendResult = Awaited<ReturnType<BotClient["sendMessage"]>>;
+type OutgoingMessage = Awaited<ReturnType<BotClient["createTextMessage"]>>;
+
+/**
+ * Message setters that only newer botclient releases provide
+ */
+interface OptionalMessageSetters {
+    setThread?(threadId: number): unknown;
+    setThreadRootMessageIndex?(threadId: number): unknown;
+    setRepliesTo?(eventIndex: number): unknown;
+    setReplyTo?(eventIndex: number): unknown;
+    setCaption?(caption: string): unknown;
+    setThumbnail?(thumbnailData: string): unknown;
+}
+
+/**
+ * Audio and video builders that only newer botclient releases provide
+ */
+interface OptionalMediaBuilders {
+    createVideoMessage?(
+        data: Uint8Array,
+        mimeType: string,
+        width: number,
+        height: number,
+    ): Promise<OutgoingMessage>;
+    createAudioMessage?(data: Uint8Array, mimeType: string): Promise<OutgoingMessage>;
+}
+
+function isAsyncIterable(value: unknown): value is AsyncIterable<Uint8Array | string> {
+    return typeof value === "object" && value !== null && Symbol.asyncIterator in value;
+}
+
+export function sanitizeText(text?: string | null): string {
+    if (!text) {
+        return "";
+    }
+    return text.replace(/\u0000/g, "").trim();
+}
+
+/**
+ * Place a message in a thread and/or quote another message
+ * Thread and reply setters only exist in newer botclient releases, so they are feature-detected.
+ */
+export function applyReplyTarget<T extends object>(
+    message: T,
+    target: OpenChatReplyTarget,
+    runtime?: IAgentRuntime,
+): T {
+    const setters: OptionalMessageSetters = message;
+    if (target.threadId !== undefined) {
+        const setThread = setters.setThread ?? setters.setThreadRootMessageIndex;
+        if (setThread) {
+            setThread.call(message, target.threadId);
+        } else {
+            runtime?.logger?.debug?.("[OpenChat] Bot client cannot place messages in threads; sending to the chat");
+        }
+    }
+    if (target.repliesTo !== undefined) {
+        const setRepliesTo = setters.setRepliesTo ?? setters.setReplyTo;
+        if (setRepliesTo) {
+            setRepliesTo.call(message, target.repliesTo);
+        } else {
+            runtime?.logger?.debug?.("[OpenChat] Bot client cannot quote messages; sending without a quote");
+        }
+    }
+    return message;
+}
+
+/**
+ * Event index a response should quote: the message that triggered it
+ */
+export function getQuotedEventIndex(metadata: OpenChatMessageMetadata): number | undefined {
+    return metadata.eventIndex;
+}
+
+/**
+ * Whether responses in a chat quote the message they answer
+ * OPENCHAT_QUOTE_REPLIES sets the default (direct chats never quote);
+ * OPENCHAT_QUOTE_REPLIES_OVERRIDES is a JSON map of locationKey to true/false.
+ */
+export function isQuotingEnabled(runtime: IAgentRuntime, metadata: OpenChatMessageMetadata): boolean {
+    const rawOverrides = runtime.getSetting("OPENCHAT_QUOTE_REPLIES_OVERRIDES");
+    if (typeof rawOverrides === "string" && rawOverrides.trim()) {
+        try {
+            const override = JSON.parse(rawOverrides)[metadata.locationKey];
+            if (typeof override === "boolean") {
+                return override;
+            }
+        } catch {
+            runtime.logger?.warn?.("[OpenChat] Ignoring invalid OPENCHAT_QUOTE_REPLIES_OVERRIDES JSON");
+        }
+    }
+    return metadata.chatKind !== "direct" && runtime.getSetting("OPENCHAT_QUOTE_REPLIES") !== "false";
+}
+
+/**
+ * Longest text message sent before a response is split (OPENCHAT_MAX_MESSAGE_LENGTH)
+ */
+export function getMaxMessageLength(runtime: IAgentRuntime): number {
+    const configured = parseInt((runtime.getSetting("OPENCHAT_MAX_MESSAGE_LENGTH") as string) || "", 10);
+    return Number.isFinite(configured) && configured > 0
+        ? Math.min(configured, OPENCHAT_MAX_TEXT_LENGTH)
+        : OPENCHAT_MAX_TEXT_LENGTH;
+}
+
+function getMaxAttachmentBytes(runtime: IAgentRuntime): number {
+    const configured = parseInt((runtime.getSetting("OPENCHAT_MAX_ATTACHMENT_BYTES") as string) || "", 10);
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTACHMENT_BYTES;
+}
+
+async function createMediaMessage(
+    client: BotClient,
+    media: LoadedMedia,
+    caption?: string,
+): Promise<{ message: OutgoingMessage; captioned: boolean }> {
+    const builders: OptionalMediaBuilders = client;
+    let message: OutgoingMessage;
+    switch (media.kind) {
+        case "image":
+            message = await client.createImageMessage(
+                media.data,
+                media.mimeType,
+                media.width ?? 0,
+                media.height ?? 0,
+            );
+            break;
+        case "video":
+        case "audio": {
+            // Dedicated audio/video builders only exist in newer botclient releases
+            if (media.kind === "video" && builders.createVideoMessage) {
+                message = await builders.createVideoMessage(
+                    media.data,
+                    media.mimeType,
+                    media.width ?? 0,
+                    media.height ?? 0,
+                );
+                break;
+            }
+            if (media.kind === "audio" && builders.createAudioMessage) {
+                message = await builders.createAudioMessage(media.data, media.mimeType);
+                break;
+            }
+            message = await client.createFileMessage(
+                media.fileName,
+                media.data,
+                media.mimeType,
+                media.data.byteLength,
+            );
+            break;
+        }
+        default:
+            message = await client.createFileMessage(
+                media.fileName,
+                media.data,
+                media.mimeType,
+                media.data.byteLength,
+            );
+    }
+
+    const setters: OptionalMessageSetters = message;
+    if (media.thumbnailData) {
+        setters.setThumbnail?.(media.thumbnailData);
+    }
+    const captioned = Boolean(caption && setters.setCaption);
+    if (caption && setters.setCaption) {
+        setters.setCaption(caption);
+    }
+    message.setFinalised(true);
+    return { message, captioned };
+}
+
+async function toBytes(value: unknown): Promise<Uint8Array | undefined> {
+    if (value instanceof Uint8Array) {
+        return value;
+    }
+    if (value instanceof ArrayBuffer) {
+        return new Uint8Array(value);
+    }
+    if (isAsyncIterable(value)) {
+        // Some speech providers return a readable stream
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of value) {
+            chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+        }
+        return Buffer.concat(chunks);
+    }
+    return undefined;
+}
+
+async function synthesizeSpeech(runtime: IAgentRuntime, text: string): Promise<LoadedMedia | undefined> {
+    const data = await toBytes(await runtime.useModel(ModelType.TEXT_TO_SPEECH, text));
+    if (!data?.byteLength) {
+        return undefined;
+    }
+    const sniffed = sniffMimeType(data);
+    return {
+        kind: "audio",
+        data,
+        mimeType: sniffed.startsWith("audio/") ? sniffed : "audio/mpeg",
+        fileName: "voice-reply",
+    };
+}
+
+async function persistResponse(
+    runtime: IAgentRuntime,
+    target: OpenChatResponseTarget,
+    responseMessageId: string,
+    content: Content,
+): Promise<Memory> {
+    const memory: Memory = {
+        id: makeMessageUuid(`${target.metadata.chatId}-${responseMessageId}`),
+        entityId: runtime.agentId as UUID,
+        agentId: runtime.agentId,
+        roomId: target.roomId,
+        content: {
+            ...content,
+            source: "openchat",
+            channelType: target.channelType,
+            inReplyTo: target.incomingMessageId,
+        },
+        metadata: {
+            type: MemoryType.MESSAGE,
+            source: "openchat",
+            scope: "room",
+            openchat: {
+                ...target.metadata,
+                messageId: responseMessageId,
+            },
+        } as any,
+        embedding: [],
+        createdAt: Date.now(),
+    };
+
+    try {
+        await runtime.createMemory?.(memory, "messages");
+    } catch (error: any) {
+        runtime.logger?.error?.(
+            "[OpenChat] Failed to persist response memory",
+            error?.message || error,
+        );
+    }
+
+    return memory;
+}
+
+/**
+ * Create the HandlerCallback that delivers agent responses to OpenChat
+ * Text is sent as a text message; attachments are uploaded as image/file/audio/video messages.
+ */
+export function createOpenChatResponseCallback(
+    runtime: IAgentRuntime,
+    client: BotClient,
+    target: OpenChatResponseTarget,
+    options: OpenChatResponderOptions = {},
+): HandlerCallback {
+    return async (content: Content) => {
+        const text = sanitizeText(content.text);
+        const attachments: Media[] = content.attachments ?? [];
+        if (!text && attachments.length === 0) {
+            return [];
+        }
+
+        const maxBytes = getMaxAttachmentBytes(runtime);
+        const loaded: Array<{ source: Media; media: LoadedMedia }> = [];
+        for (const attachment of attachments) {
+            try {
+                loaded.push({ source: attachment, media: await loadMedia(attachment, maxBytes) });
+            } catch (error: any) {
+                runtime.logger?.warn?.(
+                    `[OpenChat] Skipping attachment ${attachment.id}`,
+                    error?.message || error,
+                );
+            }
+        }
+
+        const memories: Memory[] = [];
+        const deliver = (label: string, send: () => Promise<SendResult>): Promise<SendResult> =>
+            options.outboundQueue ? options.outboundQueue.send(target.metadata.chatId, label, send) : send();
+        // Only the first message of a response quotes the message it answers
+        let quotePending = Boolean(options.quoteReplies);
+        const nextReplyTarget = (): OpenChatReplyTarget => {
+            const repliesTo = quotePending ? getQuotedEventIndex(target.metadata) : undefined;
+            quotePending = false;
+            return { threadId: target.metadata.threadId, repliesTo };
+        };
+        // A command placeholder carries the text itself, so media goes uncaptioned there
+        const captionOnMedia =
+            !options.placeholder && loaded.length === 1 && text.length > 0 && text.length <= MAX_CAPTION_LENGTH;
+
+        const sendText = async (): Promise<void> => {
+            const chunks = splitMessage(text, {
+                maxLength: getMaxMessageLength(runtime),
+                numbered: runtime.getSetting("OPENCHAT_NUMBER_CHUNKS") === "true",
+            });
+            const { placeholder } = options;
+            // Command clients can only send one message, so follow-up chunks use the installation client
+            const textClient = placeholder ? options.installationClient ?? client : client;
+
+            for (const [index, chunk] of chunks.entries()) {
+                let response: SendResult;
+                try {
+                    if (placeholder && !placeholder.isFinalised) {
+                        // The placeholder delivers through the outbound queue itself
+                        response = await placeholder.finalise(chunk);
+                    } else {
+                        const message = applyReplyTarget(
+                            (await textClient.createTextMessage(chunk)).setFinalised(true),
+                            nextReplyTarget(),
+                            runtime,
+                        );
+                        response = await deliver("response", () => textClient.sendMessage(message));
+                    }
+                } catch (error: any) {
+                    runtime.logger?.error?.(
+                        `[OpenChat] Failed to send response part ${index + 1}/${chunks.length}`,
+                        error?.message || error,
+                    );
+                    return;
+                }
+                if (response.kind !== "success") {
+                    // Stop rather than deliver later parts out of context
+                    runtime.logger?.error?.(
+                        `[OpenChat] Failed to send response part ${index + 1}/${chunks.length}`,
+                        response.message,
+                    );
+                    return;
+                }
+                memories.push(
+                    await persistResponse(runtime, target, response.messageId.toString(), {
+                        ...content,
+                        text: chunk,
+                        attachments: undefined,
+                    }),
+                );
+            }
+        };
+
+        if (text && !captionOnMedia) {
+            await sendText();
+        }
+
+        let captionDelivered = false;
+        let mediaDelivered = 0;
+        const mediaClient = options.installationClient ?? client;
+        for (const { source, media } of loaded) {
+            try {
+                const { message, captioned } = await createMediaMessage(
+                    mediaClient,
+                    media,
+                    captionOnMedia ? text : undefined,
+                );
+                const placed = applyReplyTarget(message, nextReplyTarget(), runtime);
+                const response = await deliver(`${media.kind} attachment`, () => mediaClient.sendMessage(placed));
+                if (response.kind !== "success") {
+                    runtime.logger?.error?.(
+                        `[OpenChat] Failed to send ${media.kind} attachment`,
+                        response.message,
+                    );
+                    continue;
+                }
+                captionDelivered = captioned;
+                mediaDelivered++;
+                memories.push(
+                    await persistResponse(runtime, target, response.messageId.toString(), {
+                        ...content,
+                        text: captioned ? text : "",
+                        attachments: [source],
+                    }),
+                );
+            } catch (error: any) {
+                runtime.logger?.error?.(
+                    `[OpenChat] Failed to upload ${media.kind} attachment`,
+                    error?.message || error,
+                );
+            }
+        }
+
+        if (captionOnMedia && !captionDelivered) {
+            // The upload failed or the client cannot caption media, so deliver the text on its own
+            await sendText();
+        }
+
+        if (options.placeholder && !options.placeholder.isFinalised && mediaDelivered > 0) {
+            // Media-only responses would otherwise leave the command's placeholder pending
+            const placeholder = options.placeholder;
+            const note = mediaDelivered === 1 ? "📎 Sent an attachment." : `📎 Sent ${mediaDelivered} attachments.`;
+            try {
+                await placeholder.finalise(note);
+            } catch (error: any) {
+                runtime.logger?.warn?.(
+                    "[OpenChat] Failed to finalise command placeholder",
+                    error?.message || error,
+                );
+            }
+        }
+
+        if (options.voiceReply && text) {
+            try {
+                const speech = await synthesizeSpeech(runtime, text);
+                if (speech) {
+                    const { message } = await createMediaMessage(mediaClient, speech);
+                    const placed = applyReplyTarget(message, nextReplyTarget(), runtime);
+                    const response = await deliver("voice reply", () => mediaClient.sendMessage(placed));
+                    if (response.kind === "success") {
+                        memories.push(
+                            await persistResponse(runtime, target, response.messageId.toString(), {
+                                ...content,
+                                text: "",
+                                attachments: [
+                                    {
+                                        id: `voice-${response.messageId.toString()}`,
+                                        url: "",
+                                        title: "Voice reply",
+                                        source: "openchat",
+                                        text,
+                                        contentType: ContentType.AUDIO,
+                                    },
+                                ],
+                            }),
+                        );
+                    } else {
+                        runtime.logger?.error?.("[OpenChat] Failed to send voice reply", response.message);
+                    }
+                }
+            } catch (error: any) {
+                runtime.logger?.warn?.(
+                    "[OpenChat] Unable to synthesize voice reply",
+                    error?.message || error,
+                );
+            }
+        }
+
+        return memories;
+    };
+}
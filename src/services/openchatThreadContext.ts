@@ -0,0 +1,192 @@
+import { IAgentRuntime } from "@elizaos/core";
+import {
+    BotClient,
+    ChatEventsCriteria,
+    MessageEvent as OCMessageEvent,
+} from "@open-ic/openchat-botclient-ts";
+import { OpenChatMessageMetadata } from "../types/index.js";
+import { LruCache } from "../utils/lruCache.js";
+
+const DEFAULT_THREAD_CONTEXT_MESSAGES = 10;
+const THREAD_CACHE_SIZE = 100;
+const THREAD_CACHE_TTL_MS = 1000 * 60 * 10; // 10 minutes
+const MAX_EVENT_INDEX = 0xffffffff;
+
+export interface OpenChatThreadMessage {
+    sender: string;
+    text: string;
+    fromAgent: boolean;
+}
+
+/**
+ * Root message and most recent replies of a thread
+ */
+export interface OpenChatThreadSnapshot {
+    root?: OpenChatThreadMessage;
+    replies: OpenChatThreadMessage[];
+    /** Message ids already included, so live replies are not appended twice */
+    messageIds: string[];
+    fetchedAt: number;
+}
+
+/**
+ * Fetches and caches thread context (root message plus recent replies) per roomKey
+ * Snapshots are refreshed after the TTL; live replies are appended in between.
+ */
+export class OpenChatThreadContext {
+    private readonly snapshots = new LruCache<string, OpenChatThreadSnapshot>(THREAD_CACHE_SIZE);
+    private readonly maxReplies: number;
+
+    constructor(
+        private readonly runtime: IAgentRuntime,
+        private readonly describeContent: (event: OCMessageEvent) => string,
+        private readonly isAgent: (userId: string) => boolean,
+    ) {
+        const configured = parseInt(
+            (runtime.getSetting("OPENCHAT_THREAD_CONTEXT_MESSAGES") as string) || "",
+            10,
+        );
+        this.maxReplies =
+            Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_THREAD_CONTEXT_MESSAGES;
+    }
+
+    public get(roomKey: string): OpenChatThreadSnapshot | undefined {
+        return this.snapshots.get(roomKey);
+    }
+
+    /**
+     * Make sure the thread's context is cached before the runtime composes state
+     * @param latestEventIndex - Thread event index of the message being handled (excluded)
+     */
+    public async prepare(
+        client: BotClient,
+        metadata: OpenChatMessageMetadata,
+        latestEventIndex?: number,
+    ): Promise<OpenChatThreadSnapshot | undefined> {
+        if (metadata.threadId === undefined || this.maxReplies === 0) {
+            return undefined;
+        }
+        const cached = this.snapshots.get(metadata.roomKey);
+        if (cached && Date.now() - cached.fetchedAt < THREAD_CACHE_TTL_MS) {
+            return cached;
+        }
+
+        try {
+            const [root, replies] = await Promise.all([
+                this.fetchRoot(client, metadata.threadId),
+                this.fetchReplies(client, metadata.threadId, latestEventIndex),
+            ]);
+            const snapshot: OpenChatThreadSnapshot = {
+                root: root && this.toThreadMessage(root),
+                replies: replies.map((event) => this.toThreadMessage(event)),
+                messageIds: replies.map((event) => event.messageId.toString()),
+                fetchedAt: Date.now(),
+            };
+            this.snapshots.set(metadata.roomKey, snapshot);
+            return snapshot;
+        } catch (error: any) {
+            this.runtime.logger?.warn?.(
+                `[OpenChat] Unable to load thread context for ${metadata.roomKey}`,
+                error?.message || error,
+            );
+            return cached;
+        }
+    }
+
+    /**
+     * Add a live message to a cached thread once the runtime has seen it
+     */
+    public append(roomKey: string, event: OCMessageEvent): void {
+        const snapshot = this.snapshots.get(roomKey);
+        const messageId = event.messageId.toString();
+        if (!snapshot || snapshot.messageIds.includes(messageId)) {
+            return;
+        }
+        snapshot.replies = [...snapshot.replies, this.toThreadMessage(event)].slice(-this.maxReplies);
+        snapshot.messageIds = [...snapshot.messageIds, messageId].slice(-this.maxReplies);
+    }
+
+    /**
+     * Drop a cached thread so edited or deleted messages are fetched again
+     */
+    public invalidate(roomKey: string): void {
+        this.snapshots.delete(roomKey);
+    }
+
+    /**
+     * Render a snapshot as prompt context
+     */
+    public format(snapshot: OpenChatThreadSnapshot): string {
+        const describe = (message: OpenChatThreadMessage) =>
+            `${message.fromAgent ? `${this.runtime.character?.name ?? "Agent"} (you)` : message.sender}: ${message.text}`;
+        const lines: string[] = [];
+        if (snapshot.root) {
+            lines.push(`Thread started by ${describe(snapshot.root)}`);
+        }
+        if (snapshot.replies.length) {
+            lines.push("Earlier replies in this thread:", ...snapshot.replies.map((reply) => `- ${describe(reply)}`));
+        }
+        return lines.join("\n");
+    }
+
+    private toThreadMessage(event: OCMessageEvent): OpenChatThreadMessage {
+        return {
+            sender: event.sender,
+            text: this.describeContent(event) || "(no text)",
+            fromAgent: this.isAgent(event.sender),
+        };
+    }
+
+    private async fetchRoot(client: BotClient, threadRootMessageIndex: number): Promise<OCMessageEvent | undefined> {
+        // Threads are identified by the root's message index, so look it up with a window around it
+        const criteria: ChatEventsCriteria = {
+            kind: "chat_events_window",
+            midPointMessageIndex: threadRootMessageIndex,
+            maxMessages: 1,
+            maxEvents: 5,
+        };
+        const response = await client.chatEvents(criteria);
+        if (response.kind !== "success") {
+            return undefined;
+        }
+        const root = response.events.find(
+            (wrapper) =>
+                wrapper.event.kind === "message" &&
+                (wrapper.event as OCMessageEvent).messageIndex === threadRootMessageIndex,
+        );
+        return root?.event as OCMessageEvent | undefined;
+    }
+
+    private async fetchReplies(
+        client: BotClient,
+        threadRootMessageIndex: number,
+        latestEventIndex?: number,
+    ): Promise<OCMessageEvent[]> {
+        // Without the triggering event, page backwards from the end of the thread
+        const startEventIndex = latestEventIndex !== undefined ? latestEventIndex - 1 : MAX_EVENT_INDEX;
+        if (startEventIndex < 0) {
+            return [];
+        }
+
+        const response = await client.chatEvents(
+            {
+                kind: "chat_events_page",
+                startEventIndex,
+                ascending: false,
+                maxEvents: this.maxReplies * 3,
+                maxMessages: this.maxReplies,
+            },
+            threadRootMessageIndex,
+        );
+        if (response.kind !== "success") {
+            return [];
+        }
+        return response.events
+            .filter((wrapper) => wrapper.event.kind === "message" && !(wrapper.event as OCMessageEvent).deleted)
+            .sort((a, b) => a.index - b.index)
+            .map((wrapper) => wrapper.event as OCMessageEvent)
+            .slice(-this.maxReplies);
+    }
+}
+
+export default OpenChatThreadContext;
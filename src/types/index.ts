@@ -1,7 +1,9 @@
+import type { CustomMetadata, IAgentRuntime } from "@elizaos/core";
 import {
     ActionScope,
     BotClient,
     BotClientFactory,
+    BotDefinition,
     InstallationLocation,
     InstallationRecord,
     MessageEvent,
@@ -9,7 +11,8 @@ import {
     TextContent,
     ImageContent,
 } from "@open-ic/openchat-botclient-ts";
-import { Request } from "express";
+import { Request, Response } from "express";
+import type { OpenChatClientService } from "../services/openchatClient.js";
 
 /**
  * OpenChat Bot Configuration
@@ -157,14 +160,127 @@ export interface OpenChatMessageMetadata {
     roomKey: string;
     messageId: string;
     threadId?: number;
+    /** Event index of the message to reply to (as a string) */
     replyToMessageId?: string;
+    /** Event index of the message itself, when known */
+    eventIndex?: number;
     apiGateway: string;
 }
 
+/**
+ * OpenChat details stored under `metadata.openchat` of the plugin's memories
+ */
+export interface OpenChatMemoryDetails extends Partial<OpenChatMessageMetadata> {
+    sender?: string;
+    /** Messages coalesced into the memory, in order, with the text of each */
+    coalescedMessageIds?: string[];
+    coalescedTexts?: string[];
+    editedAt?: number;
+    editHistory?: Array<{ text: string; replacedAt: number }>;
+    deleted?: boolean;
+    /** Loaded from chat history rather than received live */
+    backfilled?: boolean;
+}
+
+/**
+ * Metadata of memories stored by the plugin
+ */
+export interface OpenChatMemoryMetadata extends CustomMetadata {
+    openchat?: OpenChatMemoryDetails;
+}
+
+/**
+ * Slash command parameter, as declared in the bot definition
+ */
+export type OpenChatCommandParam = BotDefinition["commands"][number]["params"][number];
+
+/**
+ * Chat role a command is available to by default
+ */
+export type OpenChatCommandRole = BotDefinition["commands"][number]["default_role"];
+
+/**
+ * Permissions a command needs, grouped like `Permissions.encodePermissions` input
+ */
+export type OpenChatPermissionSet = Partial<Parameters<typeof Permissions.encodePermissions>[0]>;
+
+/**
+ * Context handed to a slash command handler
+ */
+export interface OpenChatCommandContext {
+    req: WithBotClient;
+    res: Response;
+    client: BotClient;
+    runtime: IAgentRuntime;
+    service: OpenChatClientService;
+}
+
+/**
+ * Slash command declaration
+ * The same definition generates the bot schema entry and handles execution.
+ */
+export interface OpenChatCommandDefinition {
+    name: string;
+    description: string;
+    params?: OpenChatCommandParam[];
+    /** Role OpenChat offers the command to by default (default: Participant) */
+    defaultRole?: OpenChatCommandRole;
+    /** Permissions the command needs (default: Text + ReadChatSummary) */
+    permissions?: OpenChatPermissionSet;
+    /** Whether the command can be used in direct messages (default: true) */
+    directMessages?: boolean;
+    /** Lowest chat role allowed to run the command, enforced at execution (default: defaultRole) */
+    minRole?: OpenChatCommandRole;
+    /** Principals allowed to run the command; when set, replaces the role check */
+    allowedPrincipals?: string[];
+    /** Time limit for background work the command starts (default: OPENCHAT_COMMAND_TIMEOUT_MS) */
+    timeoutMs?: number;
+    /** Handler responsible for answering the HTTP request */
+    handler: (context: OpenChatCommandContext) => Promise<void>;
+}
+
+/**
+ * Per-installation access override for a command, set by chat owners with /access
+ */
+export interface OpenChatCommandAccessRule {
+    minRole?: OpenChatCommandRole;
+    allowedPrincipals?: string[];
+}
+
+/**
+ * Slash command parameter forwarded to an ElizaOS action option
+ */
+export interface OpenChatActionCommandParam {
+    /** Parameter name shown in OpenChat */
+    name: string;
+    /** Key the value is passed under in the action's `options` */
+    option: string;
+    type?: "string" | "integer" | "decimal" | "boolean" | "user";
+    /** Pass the value as a one-item array, for actions that take a list */
+    list?: boolean;
+    required?: boolean;
+    description?: string;
+}
+
+/**
+ * Opt-in exposure of a runtime action as a slash command
+ */
+export interface OpenChatActionCommandConfig {
+    /** Action name (or simile) as registered with the runtime */
+    action: string;
+    /** Command name (default: derived from the action name) */
+    command?: string;
+    description?: string;
+    params?: OpenChatActionCommandParam[];
+    permissions?: OpenChatPermissionSet;
+    defaultRole?: OpenChatCommandRole;
+}
+
 export {
     ActionScope,
     BotClient,
     BotClientFactory,
+    BotDefinition,
     InstallationLocation,
     InstallationRecord,
     MessageEvent,
@@ -0,0 +1,24 @@
+/**
+ * Runs tasks one at a time per key, in the order they were queued
+ * Read-modify-write updates of a runtime cache entry go through it, so events handled at the
+ * same time do not overwrite each other's changes.
+ */
+export class KeyedSerialQueue {
+    private readonly tails = new Map<string, Promise<void>>();
+
+    public run<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const next = (this.tails.get(key) ?? Promise.resolve()).then(() => task());
+        // A failed task is reported to its caller without blocking later ones
+        const tail = next.then(
+            () => undefined,
+            () => undefined,
+        );
+        this.tails.set(key, tail);
+        void tail.then(() => {
+            if (this.tails.get(key) === tail) {
+                this.tails.delete(key);
+            }
+        });
+        return next;
+    }
+}
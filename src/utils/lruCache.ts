@@ -0,0 +1,44 @@
+/**
+ * Small bounded map that evicts the least recently used entry once full
+ */
+export class LruCache<K, V> {
+    private readonly entries = new Map<K, V>();
+
+    constructor(private readonly maxEntries: number) {}
+
+    public get size(): number {
+        return this.entries.size;
+    }
+
+    public get(key: K): V | undefined {
+        if (!this.entries.has(key)) {
+            return undefined;
+        }
+        const value = this.entries.get(key) as V;
+        // Re-insert so the entry moves to the most recently used position
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        return value;
+    }
+
+    public has(key: K): boolean {
+        return this.entries.has(key);
+    }
+
+    public set(key: K, value: V): void {
+        this.entries.delete(key);
+        this.entries.set(key, value);
+        while (this.entries.size > this.maxEntries) {
+            const oldest = this.entries.keys().next().value as K;
+            this.entries.delete(oldest);
+        }
+    }
+
+    public delete(key: K): boolean {
+        return this.entries.delete(key);
+    }
+
+    public clear(): void {
+        this.entries.clear();
+    }
+}
@@ -0,0 +1,187 @@
+/**
+ * OpenChat rejects text messages longer than this many characters
+ */
+export const OPENCHAT_MAX_TEXT_LENGTH = 10_000;
+
+export interface SplitMessageOptions {
+    maxLength?: number;
+    /** Append "(n/total)" to every part when the text is split */
+    numbered?: boolean;
+}
+
+type Block = { kind: "text"; text: string } | { kind: "code"; fence: string; lines: string[] };
+
+const FENCE_PATTERN = /^(\s*)(`{3,}|~{3,})(.*)$/;
+const NUMBERING_RESERVE = 12;
+
+/**
+ * Break text into paragraphs and fenced code blocks, keeping fences intact
+ */
+function parseBlocks(text: string): Block[] {
+    const blocks: Block[] = [];
+    const lines = text.split("\n");
+    let paragraph: string[] = [];
+
+    const flushParagraph = () => {
+        // Keep leading indentation (nested lists, indented text); only trailing space is dropped
+        const joined = paragraph.join("\n").trimEnd();
+        if (joined.trim()) {
+            blocks.push({ kind: "text", text: joined });
+        }
+        paragraph = [];
+    };
+
+    for (let i = 0; i < lines.length; i++) {
+        const fence = FENCE_PATTERN.exec(lines[i]);
+        if (fence) {
+            flushParagraph();
+            const marker = fence[2];
+            const body: string[] = [];
+            let j = i + 1;
+            while (j < lines.length && !lines[j].trim().startsWith(marker)) {
+                body.push(lines[j]);
+                j++;
+            }
+            blocks.push({ kind: "code", fence: lines[i].trimEnd(), lines: body });
+            i = j;
+            continue;
+        }
+        if (!lines[i].trim()) {
+            flushParagraph();
+            continue;
+        }
+        paragraph.push(lines[i]);
+    }
+    flushParagraph();
+    return blocks;
+}
+
+/**
+ * Closing fence for an opening fence line, at the same indentation
+ */
+function closingFence(fence: string): string {
+    const match = FENCE_PATTERN.exec(fence);
+    return match ? `${match[1]}${match[2]}` : fence;
+}
+
+function renderCode(fence: string, lines: string[]): string {
+    return [fence, ...lines, closingFence(fence)].join("\n");
+}
+
+function hardSplit(text: string, maxLength: number): string[] {
+    const parts: string[] = [];
+    for (let start = 0; start < text.length; start += maxLength) {
+        parts.push(text.slice(start, start + maxLength));
+    }
+    return parts;
+}
+
+/**
+ * Pack pieces greedily into parts no longer than maxLength
+ */
+function pack(pieces: string[], separator: string, maxLength: number): string[] {
+    const parts: string[] = [];
+    let current = "";
+    for (const piece of pieces) {
+        const candidate = current ? `${current}${separator}${piece}` : piece;
+        if (candidate.length <= maxLength) {
+            current = candidate;
+            continue;
+        }
+        if (current) {
+            parts.push(current);
+        }
+        current = piece;
+    }
+    if (current) {
+        parts.push(current);
+    }
+    return parts;
+}
+
+/**
+ * Split an overlong line on sentence, then word boundaries, keeping its indentation
+ */
+function splitLine(line: string, maxLength: number): string[] {
+    if (line.length <= maxLength) {
+        return [line];
+    }
+    const indent = /^\s*/.exec(line)?.[0] ?? "";
+    const budget = Math.max(1, maxLength - indent.length);
+    const sentences = line.trim().split(/(?<=[.!?])\s+/);
+    const pieces = sentences.flatMap((sentence) => {
+        if (sentence.length <= budget) {
+            return [sentence];
+        }
+        const words = sentence.split(/\s+/).flatMap((word) =>
+            word.length <= budget ? [word] : hardSplit(word, budget),
+        );
+        return pack(words, " ", budget);
+    });
+    return pack(pieces, " ", budget).map((part) => `${indent}${part}`);
+}
+
+/**
+ * Split an oversized paragraph on line boundaries, then within lines that are still too long
+ */
+function splitText(text: string, maxLength: number): string[] {
+    if (text.length <= maxLength) {
+        return [text];
+    }
+    const lines = text.split("\n").flatMap((line) => splitLine(line, maxLength));
+    return pack(lines, "\n", maxLength);
+}
+
+/**
+ * Split an oversized code block into several complete fenced blocks
+ */
+function splitCode(fence: string, lines: string[], maxLength: number): string[] {
+    const overhead = fence.length + closingFence(fence).length + 2;
+    const budget = Math.max(1, maxLength - overhead);
+    const pieces = lines.flatMap((line) => (line.length <= budget ? [line] : hardSplit(line, budget)));
+
+    const parts: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+    for (const piece of pieces) {
+        const added = piece.length + (current.length ? 1 : 0);
+        if (current.length && length + added > budget) {
+            parts.push(renderCode(fence, current));
+            current = [];
+            length = 0;
+        }
+        length += piece.length + (current.length ? 1 : 0);
+        current.push(piece);
+    }
+    if (current.length || parts.length === 0) {
+        parts.push(renderCode(fence, current));
+    }
+    return parts;
+}
+
+/**
+ * Split a response into OpenChat-sized messages
+ * Prefers paragraph boundaries, then lines, then sentences and words; fenced code blocks are only
+ * split between lines and every part is re-fenced so markdown renders correctly.
+ */
+export function splitMessage(text: string, options: SplitMessageOptions = {}): string[] {
+    const maxLength = Math.max(50, options.maxLength ?? OPENCHAT_MAX_TEXT_LENGTH);
+    if (text.length <= maxLength) {
+        return [text];
+    }
+
+    const budget = options.numbered ? maxLength - NUMBERING_RESERVE : maxLength;
+    const pieces = parseBlocks(text).flatMap((block) => {
+        if (block.kind === "code") {
+            const rendered = renderCode(block.fence, block.lines);
+            return rendered.length <= budget ? [rendered] : splitCode(block.fence, block.lines, budget);
+        }
+        return splitText(block.text, budget);
+    });
+    const parts = pack(pieces, "\n\n", budget);
+
+    if (!options.numbered || parts.length < 2) {
+        return parts;
+    }
+    return parts.map((part, index) => `${part}\n(${index + 1}/${parts.length})`);
+}
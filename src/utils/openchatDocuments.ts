@@ -0,0 +1,149 @@
+import { inflateSync } from "node:zlib";
+
+/**
+ * Document types that can be ingested into agent knowledge
+ */
+export const INGESTIBLE_MIME_TYPES = [
+    "text/plain",
+    "text/markdown",
+    "text/csv",
+    "application/json",
+    "application/pdf",
+];
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    txt: "text/plain",
+    md: "text/markdown",
+    markdown: "text/markdown",
+    csv: "text/csv",
+    json: "application/json",
+    pdf: "application/pdf",
+};
+
+/**
+ * Resolve the ingestible MIME type of a shared file, or undefined when unsupported
+ */
+export function getIngestibleMimeType(fileName: string, declared?: string): string | undefined {
+    const normalized = declared?.split(";")[0].trim().toLowerCase();
+    if (normalized && INGESTIBLE_MIME_TYPES.includes(normalized)) {
+        return normalized;
+    }
+    const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+    return EXTENSION_MIME_TYPES[extension];
+}
+
+function decodePdfString(raw: string): string {
+    return raw
+        .replace(/\\([nrtbf()\\]|[0-7]{1,3})/g, (_, escape: string) => {
+            switch (escape) {
+                case "n":
+                    return "\n";
+                case "r":
+                    return "\r";
+                case "t":
+                    return "\t";
+                case "b":
+                case "f":
+                    return "";
+                case "(":
+                case ")":
+                case "\\":
+                    return escape;
+                default:
+                    return String.fromCharCode(parseInt(escape, 8));
+            }
+        })
+        .replace(/\\\r?\n/g, "");
+}
+
+function extractTextOperators(stream: string): string {
+    const output: string[] = [];
+    const operator = /\[((?:\\.|[^\]\\])*)\]\s*TJ|\(((?:\\.|[^)\\])*)\)\s*(?:Tj|'|")|(T\*|ET|Td|TD)/g;
+    let match: RegExpExecArray | null;
+    while ((match = operator.exec(stream))) {
+        if (match[1] !== undefined) {
+            // Large negative kerning inside TJ arrays stands in for a word space
+            const parts = match[1].match(/\((?:\\.|[^)\\])*\)|-?\d+(?:\.\d+)?/g) ?? [];
+            output.push(
+                parts
+                    .map((part) =>
+                        part.startsWith("(") ? decodePdfString(part.slice(1, -1)) : Number(part) <= -200 ? " " : "",
+                    )
+                    .join(""),
+            );
+        } else if (match[2] !== undefined) {
+            output.push(decodePdfString(match[2]));
+        } else if (output.length && !output[output.length - 1].endsWith("\n")) {
+            output.push("\n");
+        }
+    }
+    return output.join("");
+}
+
+/**
+ * Default cap on the decompressed size of a PDF's content streams (10 MB)
+ */
+export const DEFAULT_MAX_INFLATED_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Best-effort text extraction for PDFs with plain or Flate-compressed content streams
+ * Scanned documents and fonts with custom encodings yield little or no text. Streams are
+ * inflated against a shared budget of maxInflatedBytes; a stream that would exceed it is skipped.
+ */
+export function extractPdfText(data: Uint8Array, maxInflatedBytes = DEFAULT_MAX_INFLATED_BYTES): string {
+    let budget = maxInflatedBytes;
+    const source = Buffer.from(data).toString("latin1");
+    const streamPattern = /<<([^]*?)>>\s*stream\r?\n/g;
+    const texts: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = streamPattern.exec(source))) {
+        const start = match.index + match[0].length;
+        const end = source.indexOf("endstream", start);
+        if (end < 0) {
+            break;
+        }
+        const raw = Buffer.from(source.slice(start, end), "latin1");
+        let content: string;
+        try {
+            if (/\/FlateDecode/.test(match[1])) {
+                const inflated = inflateSync(raw, { maxOutputLength: budget });
+                budget -= inflated.byteLength;
+                content = inflated.toString("latin1");
+            } else {
+                content = raw.toString("latin1");
+            }
+        } catch {
+            // Corrupt, or larger than what is left of the budget
+            streamPattern.lastIndex = end;
+            continue;
+        }
+        const text = extractTextOperators(content).trim();
+        if (text) {
+            texts.push(text);
+        }
+        streamPattern.lastIndex = end;
+    }
+    return texts.join("\n\n");
+}
+
+/**
+ * Extract plain text from an ingestible document
+ */
+export function extractDocumentText(
+    data: Uint8Array,
+    mimeType: string,
+    maxInflatedBytes = DEFAULT_MAX_INFLATED_BYTES,
+): string {
+    switch (mimeType) {
+        case "application/pdf":
+            return extractPdfText(data, maxInflatedBytes);
+        case "application/json":
+            try {
+                return JSON.stringify(JSON.parse(Buffer.from(data).toString("utf8")), null, 2);
+            } catch {
+                return Buffer.from(data).toString("utf8");
+            }
+        default:
+            return Buffer.from(data).toString("utf8");
+    }
+}
@@ -28,6 +28,13 @@ export function makeMessageUuid(identifier: string): UUID {
     return uuidv5(`openchat-message-${identifier}`, OPENCHAT_UUID_NAMESPACE) as UUID;
 }
 
+/**
+ * Generate a deterministic UUID for an ingested document or one of its fragments.
+ */
+export function makeDocumentUuid(identifier: string): UUID {
+    return uuidv5(`openchat-document-${identifier}`, OPENCHAT_UUID_NAMESPACE) as UUID;
+}
+
 /**
  * Fallback helper for random UUIDs when no deterministic input exists.
  */
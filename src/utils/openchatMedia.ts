@@ -0,0 +1,351 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { Media } from "@elizaos/core";
+
+export type OpenChatMediaKind = "image" | "video" | "audio" | "file";
+
+export interface LoadedMedia {
+    kind: OpenChatMediaKind;
+    data: Uint8Array;
+    mimeType: string;
+    fileName: string;
+    width?: number;
+    height?: number;
+    /** Small preview as a data URL, for images that carry or fit one */
+    thumbnailData?: string;
+}
+
+/**
+ * Attachment with its bytes already in memory, as some plugins hand them over
+ */
+type InMemoryMedia = Media & { data?: unknown; buffer?: unknown };
+
+/**
+ * Default upper bound for outbound attachments (5 MB)
+ */
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Images up to this size are their own thumbnail
+ */
+const MAX_INLINE_THUMBNAIL_BYTES = 16 * 1024;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".svg": "image/svg+xml",
+    ".mp4": "video/mp4",
+    ".webm": "video/webm",
+    ".mov": "video/quicktime",
+    ".mp3": "audio/mpeg",
+    ".ogg": "audio/ogg",
+    ".wav": "audio/wav",
+    ".m4a": "audio/mp4",
+    ".pdf": "application/pdf",
+    ".txt": "text/plain",
+    ".md": "text/markdown",
+    ".csv": "text/csv",
+    ".json": "application/json",
+    ".zip": "application/zip",
+};
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+    if (bytes.length < offset + signature.length) {
+        return false;
+    }
+    return signature.every((value, index) => bytes[offset + index] === value);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+    return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+/**
+ * Detect a MIME type from magic bytes, falling back to the file extension
+ */
+export function sniffMimeType(bytes: Uint8Array, fileName?: string): string {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+    if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return "image/gif";
+    if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WEBP") return "image/webp";
+    if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 12) === "WAVE") return "audio/wav";
+    if (ascii(bytes, 0, 4) === "%PDF") return "application/pdf";
+    if (ascii(bytes, 0, 4) === "OggS") return "audio/ogg";
+    if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+    if (ascii(bytes, 4, 8) === "ftyp") {
+        return ascii(bytes, 8, 11) === "M4A" ? "audio/mp4" : "video/mp4";
+    }
+    if (ascii(bytes, 0, 3) === "ID3" || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+        return "audio/mpeg";
+    }
+    if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04])) return "application/zip";
+
+    const extension = fileName ? extname(fileName).toLowerCase() : "";
+    return EXTENSION_MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Read pixel dimensions from PNG, GIF, JPEG and WebP headers
+ */
+export function getImageDimensions(
+    bytes: Uint8Array,
+    mimeType: string,
+): { width: number; height: number } | undefined {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    try {
+        switch (mimeType) {
+            case "image/png":
+                return { width: view.getUint32(16), height: view.getUint32(20) };
+            case "image/gif":
+                return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+            case "image/webp": {
+                const chunk = ascii(bytes, 12, 16);
+                if (chunk === "VP8 ") {
+                    return {
+                        width: view.getUint16(26, true) & 0x3fff,
+                        height: view.getUint16(28, true) & 0x3fff,
+                    };
+                }
+                if (chunk === "VP8L") {
+                    const bits = view.getUint32(21, true);
+                    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+                }
+                if (chunk === "VP8X") {
+                    const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+                    const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+                    return { width, height };
+                }
+                return undefined;
+            }
+            case "image/jpeg": {
+                let offset = 2;
+                while (offset + 9 < bytes.length) {
+                    if (bytes[offset] !== 0xff) {
+                        offset++;
+                        continue;
+                    }
+                    const marker = bytes[offset + 1];
+                    const isStartOfFrame =
+                        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+                    if (isStartOfFrame) {
+                        return { height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+                    }
+                    offset += 2 + view.getUint16(offset + 2);
+                }
+                return undefined;
+            }
+            default:
+                return undefined;
+        }
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Locate the preview JPEG embedded in a JPEG's EXIF block (IFD1)
+ */
+function getExifThumbnail(bytes: Uint8Array): Uint8Array | undefined {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        const length = view.getUint16(offset + 2);
+        if (marker === 0xda) {
+            // Image data starts; EXIF always comes before it
+            return undefined;
+        }
+        if (marker === 0xe1 && ascii(bytes, offset + 4, offset + 10) === "Exif\0\0") {
+            const tiff = offset + 10;
+            const little = ascii(bytes, tiff, tiff + 2) === "II";
+            const ifd0 = tiff + view.getUint32(tiff + 4, little);
+            const ifd1Offset = view.getUint32(ifd0 + 2 + view.getUint16(ifd0, little) * 12, little);
+            if (ifd1Offset === 0) {
+                return undefined;
+            }
+            const ifd1 = tiff + ifd1Offset;
+            let start: number | undefined;
+            let size: number | undefined;
+            for (let entry = 0; entry < view.getUint16(ifd1, little); entry++) {
+                const field = ifd1 + 2 + entry * 12;
+                const tag = view.getUint16(field, little);
+                if (tag === 0x0201) start = tiff + view.getUint32(field + 8, little);
+                if (tag === 0x0202) size = view.getUint32(field + 8, little);
+            }
+            if (start === undefined || !size || start + size > bytes.length) {
+                return undefined;
+            }
+            const thumbnail = bytes.subarray(start, start + size);
+            return startsWith(thumbnail, [0xff, 0xd8]) ? thumbnail : undefined;
+        }
+        offset += 2 + length;
+    }
+    return undefined;
+}
+
+/**
+ * Thumbnail for an image as a data URL: the JPEG's embedded EXIF preview, or the image
+ * itself when it is small enough
+ */
+export function getImageThumbnail(bytes: Uint8Array, mimeType: string): string | undefined {
+    let thumbnail: Uint8Array | undefined;
+    try {
+        thumbnail = mimeType === "image/jpeg" ? getExifThumbnail(bytes) : undefined;
+    } catch {
+        thumbnail = undefined;
+    }
+    if (!thumbnail && bytes.byteLength <= MAX_INLINE_THUMBNAIL_BYTES) {
+        thumbnail = bytes;
+    }
+    return thumbnail ? `data:${mimeType};base64,${Buffer.from(thumbnail).toString("base64")}` : undefined;
+}
+
+export function getMediaKind(mimeType: string, hint?: string): OpenChatMediaKind {
+    if (mimeType.startsWith("image/") && mimeType !== "image/svg+xml") return "image";
+    if (mimeType.startsWith("video/")) return "video";
+    if (mimeType.startsWith("audio/")) return "audio";
+    if (hint === "image" || hint === "video" || hint === "audio") return hint;
+    return "file";
+}
+
+function assertSize(size: number, maxBytes: number, label: string): void {
+    if (size > maxBytes) {
+        throw new Error(`Attachment ${label} is ${size} bytes, above the ${maxBytes} byte limit`);
+    }
+}
+
+/**
+ * Read a response body, giving up as soon as it grows past the limit
+ */
+async function readCapped(response: Response, maxBytes: number, label: string): Promise<Uint8Array> {
+    if (!response.body) {
+        const data = new Uint8Array(await response.arrayBuffer());
+        assertSize(data.byteLength, maxBytes, label);
+        return data;
+    }
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        size += value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            assertSize(size, maxBytes, label);
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+}
+
+async function readSource(
+    media: Media,
+    maxBytes: number,
+): Promise<{ data: Uint8Array; fileName: string; declaredType?: string }> {
+    const raw = (media as InMemoryMedia).data ?? (media as InMemoryMedia).buffer;
+    if (raw instanceof Uint8Array) {
+        assertSize(raw.byteLength, maxBytes, media.title ?? media.id);
+        return { data: raw, fileName: media.title ?? media.id };
+    }
+
+    const url = media.url ?? "";
+    const dataUrl = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(url);
+    if (dataUrl) {
+        const [, declaredType, isBase64, payload] = dataUrl;
+        const data = isBase64
+            ? Buffer.from(payload, "base64")
+            : Buffer.from(decodeURIComponent(payload), "utf8");
+        assertSize(data.byteLength, maxBytes, media.title ?? media.id);
+        return { data, fileName: media.title ?? media.id, declaredType };
+    }
+
+    if (/^https?:\/\//i.test(url)) {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Failed to download attachment ${url}: HTTP ${response.status}`);
+        }
+        const declaredSize = Number(response.headers.get("content-length") ?? 0);
+        if (declaredSize > maxBytes) {
+            await response.body?.cancel();
+            assertSize(declaredSize, maxBytes, url);
+        }
+        const data = await readCapped(response, maxBytes, url);
+        const declaredType = response.headers.get("content-type")?.split(";")[0] ?? undefined;
+        return { data, fileName: media.title ?? basename(new URL(url).pathname), declaredType };
+    }
+
+    const path = url.startsWith("file://") ? fileURLToPath(url) : url;
+    if (!path) {
+        throw new Error(`Attachment ${media.id} has no readable source`);
+    }
+    const info = await stat(path);
+    assertSize(info.size, maxBytes, path);
+    return { data: new Uint8Array(await readFile(path)), fileName: media.title ?? basename(path) };
+}
+
+/**
+ * Load an ElizaOS attachment (local path, file/data/http URL, or in-memory buffer)
+ */
+export async function loadMedia(media: Media, maxBytes = DEFAULT_MAX_ATTACHMENT_BYTES): Promise<LoadedMedia> {
+    const { data, fileName, declaredType } = await readSource(media, maxBytes);
+    const sniffed = sniffMimeType(data, fileName);
+    const mimeType = sniffed === "application/octet-stream" && declaredType ? declaredType : sniffed;
+    const kind = getMediaKind(mimeType, media.contentType);
+    const dimensions = kind === "image" ? getImageDimensions(data, mimeType) : undefined;
+    return {
+        kind,
+        data,
+        mimeType,
+        fileName,
+        width: dimensions?.width,
+        height: dimensions?.height,
+        thumbnailData: kind === "image" ? getImageThumbnail(data, mimeType) : undefined,
+    };
+}
+
+/**
+ * Load media a chat member shared, which must live at an http(s) URL
+ * Chat events are untrusted input, so their URLs may never point at local files or data.
+ */
+export async function loadRemoteMedia(media: Media, maxBytes = DEFAULT_MAX_ATTACHMENT_BYTES): Promise<LoadedMedia> {
+    if (!/^https?:\/\//i.test(media.url ?? "")) {
+        throw new Error(`Refusing to load ${media.id}: only http(s) URLs are allowed for shared media`);
+    }
+    return loadMedia(media, maxBytes);
+}
+
+/**
+ * Public URL of a blob held in OpenChat storage
+ * Message content carries either a ready-made `blobUrl` or a `blobReference` ({ canisterId, blobId }).
+ */
+export function getBlobUrl(content: unknown, icHost?: string): string | undefined {
+    const { blobUrl, blobReference } = (content ?? {}) as {
+        blobUrl?: string;
+        blobReference?: { canisterId?: string; blobId?: bigint | string | number };
+    };
+    if (blobUrl) {
+        return blobUrl;
+    }
+    if (!blobReference?.canisterId || blobReference.blobId === undefined) {
+        return undefined;
+    }
+
+    const blobId = blobReference.blobId.toString();
+    const host = icHost ? new URL(icHost) : undefined;
+    if (host && (host.hostname === "localhost" || host.hostname === "127.0.0.1")) {
+        return `${host.protocol}//${blobReference.canisterId}.raw.localhost:${host.port}/files/${blobId}`;
+    }
+    return `https://${blobReference.canisterId}.raw.icp0.io/files/${blobId}`;
+}
+
+export function getBlobId(content: unknown): string | undefined {
+    const reference = (content as any)?.blobReference;
+    return reference?.blobId !== undefined ? reference.blobId.toString() : undefined;
+}
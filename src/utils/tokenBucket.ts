@@ -0,0 +1,44 @@
+/**
+ * Token bucket rate limiter: holds up to `capacity` tokens, refilled at `ratePerMinute`
+ */
+export class TokenBucket {
+    private tokens: number;
+    private lastRefill = Date.now();
+
+    constructor(
+        private readonly capacity: number,
+        private readonly ratePerMinute: number,
+    ) {
+        this.tokens = capacity;
+    }
+
+    /**
+     * Milliseconds until a token is available (0 when one can be taken now)
+     */
+    public waitTime(): number {
+        this.refill();
+        if (this.tokens >= 1) {
+            return 0;
+        }
+        return Math.ceil(((1 - this.tokens) * 60_000) / this.ratePerMinute);
+    }
+
+    /**
+     * Take a token if one is available
+     */
+    public tryTake(): boolean {
+        this.refill();
+        if (this.tokens < 1) {
+            return false;
+        }
+        this.tokens -= 1;
+        return true;
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsed = now - this.lastRefill;
+        this.lastRefill = now;
+        this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.ratePerMinute) / 60_000);
+    }
+}